@@ -0,0 +1,9 @@
+-- Tombstone links removed from links.csv
+-- KV entries are hard-deleted (redirects stop immediately), but the D1 row is kept
+-- so historical clicks (FK to links.slug) stay queryable for analytics export.
+-- Re-adding the slug in links.csv clears the tombstone.
+
+ALTER TABLE links ADD COLUMN deleted_at INTEGER;
+
+-- Dashboard lists only live links per user
+CREATE INDEX IF NOT EXISTS idx_links_created_by_deleted_at ON links(created_by, deleted_at);
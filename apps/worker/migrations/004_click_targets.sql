@@ -0,0 +1,7 @@
+-- Record which destination variant served each click
+-- 'default' for the link's main URL, otherwise the override that matched (e.g. 'ios', 'android', 'desktop')
+
+ALTER TABLE clicks ADD COLUMN target TEXT;
+
+-- Breakdown of clicks per target for a slug
+CREATE INDEX IF NOT EXISTS idx_clicks_slug_target ON clicks(slug, target);
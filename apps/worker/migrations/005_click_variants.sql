@@ -0,0 +1,7 @@
+-- A/B split links: record which arm (a, b, c, ...) served each click
+-- NULL for links without a split; clicks.target is 'split' when an arm was served
+
+ALTER TABLE clicks ADD COLUMN variant TEXT;
+
+-- Per-arm click counts for a slug
+CREATE INDEX IF NOT EXISTS idx_clicks_slug_variant ON clicks(slug, variant);
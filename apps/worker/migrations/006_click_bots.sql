@@ -0,0 +1,8 @@
+-- Flag clicks from bots (monitors, scanners, HTTP libraries, headless browsers)
+-- Bot clicks are stored for inspection but don't increment links.clicks and are
+-- excluded from /api/analytics unless include_bots=true
+
+ALTER TABLE clicks ADD COLUMN is_bot INTEGER NOT NULL DEFAULT 0;
+
+-- Analytics queries filter on is_bot within a time range
+CREATE INDEX IF NOT EXISTS idx_clicks_is_bot_clicked_at ON clicks(is_bot, clicked_at);
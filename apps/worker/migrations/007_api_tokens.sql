@@ -0,0 +1,18 @@
+-- Per-user analytics API tokens
+-- A token can read clicks for links created by one user, optionally limited to
+-- specific slugs. Only a SHA-256 hash of the token secret is stored.
+
+CREATE TABLE IF NOT EXISTS api_tokens (
+  id TEXT PRIMARY KEY,              -- Public token ID (the "gitly_<id>_" part of the token)
+  token_hash TEXT NOT NULL,         -- SHA-256 (hex) of the secret part
+  created_by TEXT NOT NULL,         -- Username whose clicks the token can read
+  slugs TEXT,                       -- JSON array of allowed slugs; NULL = all of the user's links
+  label TEXT,
+  created_at INTEGER NOT NULL,
+  expires_at INTEGER,
+  revoked_at INTEGER,
+  last_used_at INTEGER
+);
+
+-- Listing a user's tokens
+CREATE INDEX IF NOT EXISTS idx_api_tokens_created_by ON api_tokens(created_by);
@@ -0,0 +1,32 @@
+-- Normalized referrer data (see src/referrer.ts)
+-- referrer_domain: host without "www." (or android-app package), source: canonical traffic
+-- source ('twitter', 'linkedin', 'slack', 'email', 'direct', 'other', ...), utm_*: from the referrer URL
+
+ALTER TABLE clicks ADD COLUMN referrer_domain TEXT;
+ALTER TABLE clicks ADD COLUMN source TEXT;
+ALTER TABLE clicks ADD COLUMN utm_source TEXT;
+ALTER TABLE clicks ADD COLUMN utm_medium TEXT;
+ALTER TABLE clicks ADD COLUMN utm_campaign TEXT;
+
+-- Backfill existing clicks: domain from the raw referrer, 'direct' when there was none.
+-- Older clicks with a referrer keep source NULL (unclassified).
+-- The host is cut out in steps, as URL parsing would: drop the scheme, then
+-- everything from the path, query or fragment on, then user info and the port.
+UPDATE clicks
+SET referrer_domain = lower(substr(referrer, instr(referrer, '://') + 3))
+WHERE referrer IS NOT NULL AND instr(referrer, '://') > 0;
+
+UPDATE clicks SET referrer_domain = substr(referrer_domain, 1, instr(referrer_domain, '/') - 1) WHERE instr(referrer_domain, '/') > 0;
+UPDATE clicks SET referrer_domain = substr(referrer_domain, 1, instr(referrer_domain, '?') - 1) WHERE instr(referrer_domain, '?') > 0;
+UPDATE clicks SET referrer_domain = substr(referrer_domain, 1, instr(referrer_domain, '#') - 1) WHERE instr(referrer_domain, '#') > 0;
+UPDATE clicks SET referrer_domain = substr(referrer_domain, instr(referrer_domain, '@') + 1) WHERE instr(referrer_domain, '@') > 0;
+-- IPv6 hosts ([::1]:8080) are left as they are
+UPDATE clicks SET referrer_domain = substr(referrer_domain, 1, instr(referrer_domain, ':') - 1) WHERE instr(referrer_domain, ':') > 0 AND referrer_domain NOT LIKE '[%';
+
+UPDATE clicks SET referrer_domain = substr(referrer_domain, 5) WHERE referrer_domain LIKE 'www.%';
+UPDATE clicks SET referrer_domain = NULL WHERE referrer_domain = '';
+
+UPDATE clicks SET source = 'direct' WHERE referrer IS NULL;
+
+-- Breakdown of clicks per source for a slug
+CREATE INDEX IF NOT EXISTS idx_clicks_slug_source ON clicks(slug, source);
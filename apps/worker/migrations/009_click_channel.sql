@@ -0,0 +1,8 @@
+-- How the visitor reached the link: 'qr' when they scanned a generated QR code
+-- (the code encodes gitly.sh/<slug>?qr), otherwise 'link'. Existing clicks predate
+-- the marker and count as 'link'.
+
+ALTER TABLE clicks ADD COLUMN channel TEXT NOT NULL DEFAULT 'link';
+
+-- Scans vs. clicks per slug
+CREATE INDEX IF NOT EXISTS idx_clicks_slug_channel ON clicks(slug, channel);
@@ -0,0 +1,25 @@
+-- Link-rot checks (see src/link-health.ts)
+-- The scheduled handler probes each live link's destination and records the result.
+-- link_checks keeps the history; the links columns hold the latest state for the dashboard.
+
+CREATE TABLE IF NOT EXISTS link_checks (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  slug TEXT NOT NULL,
+  checked_at INTEGER NOT NULL,
+  status INTEGER,                   -- Final HTTP status (NULL if the request failed)
+  latency_ms INTEGER NOT NULL,
+  ok INTEGER NOT NULL,              -- 1 if the destination was reachable
+  error TEXT,                       -- 'timeout', 'network', 'blocked', 'too-many-redirects' when status is NULL
+  FOREIGN KEY (slug) REFERENCES links(slug)
+);
+
+-- History per link, newest first
+CREATE INDEX IF NOT EXISTS idx_link_checks_slug_checked_at ON link_checks(slug, checked_at);
+-- Pruning old checks
+CREATE INDEX IF NOT EXISTS idx_link_checks_checked_at ON link_checks(checked_at);
+
+ALTER TABLE links ADD COLUMN last_checked_at INTEGER;
+ALTER TABLE links ADD COLUMN check_failures INTEGER NOT NULL DEFAULT 0; -- Consecutive failed checks
+
+-- Picking the least recently checked links
+CREATE INDEX IF NOT EXISTS idx_links_last_checked_at ON links(last_checked_at);
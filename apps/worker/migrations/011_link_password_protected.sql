@@ -0,0 +1,6 @@
+-- Password-protected links (password_hash in links.csv, see src/password.ts)
+-- The hash itself only lives in KV; this flag lets pages built from D1 (the
+-- dashboard, label sheets) hide the destination, as the preview page does.
+-- Set by scripts/sync-links.ts, which rewrites every live link on each run.
+
+ALTER TABLE links ADD COLUMN password_protected INTEGER NOT NULL DEFAULT 0;
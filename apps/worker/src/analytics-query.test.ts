@@ -0,0 +1,117 @@
+/**
+ * Tests for analytics query building
+ * Run with: npx tsx analytics-query.test.ts
+ */
+
+import { AnalyticsQuery, ClickRow, CSV_COLUMNS, buildWhere, buildPageWhere, encodeCursor, decodeCursor, formatClickLine } from './analytics-query'
+
+function query(overrides: Partial<AnalyticsQuery>): AnalyticsQuery {
+  return { since: 100, until: 200, slug: null, user: null, includeBots: false, scope: null, ...overrides }
+}
+
+const alice = { tokenId: 't1', user: 'alice', slugs: null }
+
+const click: ClickRow = {
+  id: 42, slug: 'gh', clicked_at: 1771113600, referrer: 'https://example.com/?a=1,2', country: 'US', city: null,
+  device_type: 'desktop', browser: 'Chrome', os: 'macOS', visitor_hash: 'abc', target: 'default', variant: null,
+  is_bot: 0, referrer_domain: 'example.com', source: 'other', utm_source: null, utm_medium: null,
+  utm_campaign: 'say "hi"', channel: 'link', created_by: 'alice',
+}
+
+const invalidCursors = ['', 'abc', '1-', '-2', '1-2-3', '1.5-2', '1771113600_42']
+
+/**
+ * The value bound to each `column = ?n` condition, so tests can check what a
+ * clause filters on without depending on placeholder numbers.
+ */
+function bound(where: { sql: string; params: unknown[] }, column: string): unknown[] {
+  const pattern = new RegExp(`${column.replace('.', '\\.')} = \\?(\\d+)`, 'g')
+  return [...where.sql.matchAll(pattern)].map((match) => where.params[Number(match[1]) - 1])
+}
+
+/** Every ?n has a param, and every param is used */
+function placeholdersMatch(where: { sql: string; params: unknown[] }): boolean {
+  const used = new Set([...where.sql.matchAll(/\?(\d+)/g)].map((match) => Number(match[1])))
+  return used.size === where.params.length && [...used].every((n) => n >= 1 && n <= where.params.length)
+}
+
+function runTests() {
+  console.log('Running analytics query tests...\n')
+
+  let passed = 0
+  let failed = 0
+
+  const check = (ok: boolean, description: string, detail: string) => {
+    if (ok) {
+      console.log(`✓ ${description}`)
+      passed++
+    } else {
+      console.log(`✗ ${description}`)
+      console.log(`  ${detail}`)
+      failed++
+    }
+  }
+
+  // Global key: only the requested filters
+  const global = buildWhere(query({}))
+  check(global.sql === 'c.clicked_at >= ?1 AND c.clicked_at < ?2 AND c.is_bot = 0', 'Time range and bot filter', global.sql)
+  check(!buildWhere(query({ includeBots: true })).sql.includes('is_bot'), 'include_bots drops the bot filter', '')
+  const filtered = buildWhere(query({ slug: 'gh', user: 'bob' }))
+  check(bound(filtered, 'c.slug')[0] === 'gh' && bound(filtered, 'l.created_by')[0] === 'bob', 'slug and user filters', JSON.stringify(filtered))
+
+  // Token scope: always the token's user, whatever was asked for
+  const scoped = buildWhere(query({ scope: alice }))
+  check(JSON.stringify(bound(scoped, 'l.created_by')) === '["alice"]', 'Tokens only see their own user\'s clicks', JSON.stringify(scoped))
+
+  const otherUser = buildWhere(query({ user: 'bob', scope: alice }))
+  const owners = bound(otherUser, 'l.created_by')
+  check(owners.includes('alice') && owners.includes('bob'), 'Asking for another user still filters on the token\'s user', JSON.stringify(otherUser))
+
+  const otherSlug = buildWhere(query({ slug: 'bobs-link', scope: { ...alice, slugs: ['gh', 'talk'] } }))
+  const slugList = otherSlug.sql.match(/c\.slug IN \((.*?)\)/)?.[1].split(', ').map((p) => otherSlug.params[Number(p.slice(1)) - 1])
+  check(
+    JSON.stringify(slugList) === '["gh","talk"]' && bound(otherSlug, 'c.slug')[0] === 'bobs-link' && bound(otherSlug, 'l.created_by')[0] === 'alice',
+    'Slug-scoped tokens are limited to their slugs, even when asking for another',
+    JSON.stringify(otherSlug)
+  )
+
+  for (const [description, where] of [['Global', global], ['Scoped', scoped], ['Scoped to slugs', otherSlug]] as const) {
+    check(placeholdersMatch(where), `${description} placeholders match params`, JSON.stringify(where))
+  }
+
+  // Cursors
+  const cursor = decodeCursor(encodeCursor(click))
+  check(cursor?.clickedAt === 1771113600 && cursor.id === 42, 'Cursor round-trips (clicked_at, id)', JSON.stringify(cursor))
+  for (const value of invalidCursors) {
+    check(decodeCursor(value) === null, `Invalid cursor "${value}" is rejected`, JSON.stringify(decodeCursor(value)))
+  }
+
+  // Keyset condition comes after the scope, with its own placeholders
+  const page = buildPageWhere(query({ scope: { ...alice, slugs: ['gh'] } }), { clickedAt: 150, id: 7 })
+  const keyset = page.sql.match(/\(c\.clicked_at > \?(\d+) OR \(c\.clicked_at = \?(\d+) AND c\.id > \?(\d+)\)\)$/)
+  check(
+    keyset !== null && page.params[Number(keyset[1]) - 1] === 150 && keyset[1] === keyset[2] && page.params[Number(keyset[3]) - 1] === 7,
+    'Pages continue after the cursor',
+    JSON.stringify(page)
+  )
+  check(placeholdersMatch(page) && bound(page, 'l.created_by')[0] === 'alice', 'Paging keeps the token scope', JSON.stringify(page))
+  check(buildPageWhere(query({}), null).sql === global.sql, 'First page has no keyset condition', '')
+
+  // Export lines
+  const csv = formatClickLine(click, 'csv')
+  check(
+    csv === '42,1771113600,gh,alice,"https://example.com/?a=1,2",US,,desktop,Chrome,macOS,abc,default,,0,example.com,other,,,"say ""hi""",link',
+    'CSV line follows CSV_COLUMNS, quoting where needed and leaving nulls empty',
+    csv
+  )
+  check(CSV_COLUMNS.length === Object.keys(click).length, 'CSV has a column per field', `${CSV_COLUMNS.length} columns`)
+  check(JSON.stringify(JSON.parse(formatClickLine(click, 'ndjson'))) === JSON.stringify(click), 'NDJSON line is the row as JSON', formatClickLine(click, 'ndjson'))
+
+  console.log(`\n${passed} passed, ${failed} failed`)
+
+  if (failed > 0) {
+    process.exit(1)
+  }
+}
+
+runTests()
@@ -0,0 +1,127 @@
+import { TokenScope } from './api-tokens'
+
+/**
+ * Analytics query building (see analytics.ts): the WHERE clause every query
+ * shares, including the per-user token scope, keyset cursors for paging
+ * through clicks, and the NDJSON/CSV lines of a raw export.
+ *
+ * Kept free of Workers types so it can be unit tested with tsx.
+ */
+
+export interface ClickRow {
+  id: number
+  slug: string
+  clicked_at: number
+  referrer: string | null
+  country: string | null
+  city: string | null
+  device_type: string
+  browser: string
+  os: string
+  visitor_hash: string
+  target: string | null // Destination variant served ('default', 'ios', 'geo:US', 'split', ...)
+  variant: string | null // A/B split arm ('a', 'b', ...) when target is 'split'
+  is_bot: number // 1 if classified as a bot (always 0 unless include_bots=true)
+  referrer_domain: string | null // Referrer host without "www." (see referrer.ts)
+  source: string | null // Canonical source ('twitter', 'slack', 'email', 'direct', ...)
+  utm_source: string | null // UTM tags found in the referrer URL
+  utm_medium: string | null
+  utm_campaign: string | null
+  channel: string // 'qr' for scans of generated QR codes, otherwise 'link'
+  created_by: string // Joined from links table
+}
+
+export interface AnalyticsQuery {
+  since: number
+  until: number
+  slug: string | null
+  user: string | null
+  includeBots: boolean
+  scope: TokenScope | null // Set for per-user tokens; null with the global key
+}
+
+// Column order for format=csv
+export const CSV_COLUMNS: Array<keyof ClickRow> = [
+  'id', 'clicked_at', 'slug', 'created_by', 'referrer', 'country', 'city', 'device_type',
+  'browser', 'os', 'visitor_hash', 'target', 'variant', 'is_bot', 'referrer_domain', 'source',
+  'utm_source', 'utm_medium', 'utm_campaign', 'channel',
+]
+
+/**
+ * WHERE clause shared by every analytics query (params are ?1..?n)
+ */
+export function buildWhere(query: AnalyticsQuery): { sql: string; params: unknown[] } {
+  const conditions = ['c.clicked_at >= ?1', 'c.clicked_at < ?2']
+  const params: unknown[] = [query.since, query.until]
+
+  if (query.slug) {
+    params.push(query.slug)
+    conditions.push(`c.slug = ?${params.length}`)
+  }
+  if (query.user) {
+    params.push(query.user)
+    conditions.push(`l.created_by = ?${params.length}`)
+  }
+  if (!query.includeBots) {
+    conditions.push('c.is_bot = 0')
+  }
+
+  // Per-user tokens only ever see their own links, whatever slug/user was asked for
+  if (query.scope) {
+    params.push(query.scope.user)
+    conditions.push(`l.created_by = ?${params.length}`)
+    if (query.scope.slugs) {
+      const placeholders = query.scope.slugs.map((slug) => {
+        params.push(slug)
+        return `?${params.length}`
+      })
+      conditions.push(`c.slug IN (${placeholders.join(', ')})`)
+    }
+  }
+
+  return { sql: conditions.join(' AND '), params }
+}
+
+/** Position after the last click returned: (clicked_at, id) */
+export interface Cursor {
+  clickedAt: number
+  id: number
+}
+
+export function encodeCursor(click: ClickRow): string {
+  return `${click.clicked_at}-${click.id}`
+}
+
+export function decodeCursor(value: string): Cursor | null {
+  const match = value.match(/^(\d+)-(\d+)$/)
+  return match ? { clickedAt: Number(match[1]), id: Number(match[2]) } : null
+}
+
+/**
+ * WHERE clause for one page of clicks in (clicked_at, id) order, starting after the cursor
+ */
+export function buildPageWhere(query: AnalyticsQuery, after: Cursor | null): { sql: string; params: unknown[] } {
+  const where = buildWhere(query)
+  if (after) {
+    where.params.push(after.clickedAt, after.id)
+    const at = where.params.length - 1
+    where.sql += ` AND (c.clicked_at > ?${at} OR (c.clicked_at = ?${at} AND c.id > ?${at + 1}))`
+  }
+  return where
+}
+
+function csvField(value: string | number | null): string {
+  if (value == null) return ''
+  const str = String(value)
+  // Quote fields containing commas, quotes or line breaks
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str
+}
+
+/**
+ * One click as a line of a streamed export (without the line break)
+ */
+export function formatClickLine(row: ClickRow, format: 'ndjson' | 'csv'): string {
+  return format === 'csv'
+    ? CSV_COLUMNS.map((column) => csvField(row[column])).join(',')
+    : JSON.stringify(row)
+}
@@ -0,0 +1,418 @@
+import { Context, MiddlewareHandler } from 'hono'
+import { constantTimeCompare } from './crypto'
+import { touchApiToken, verifyApiToken } from './api-tokens'
+import { ClickRow, AnalyticsQuery, Cursor, CSV_COLUMNS, buildWhere, buildPageWhere, encodeCursor, decodeCursor, formatClickLine } from './analytics-query'
+
+/**
+ * Analytics API handlers
+ *
+ * - GET /api/analytics            Raw clicks for a time range, paginated or streamed (used by scripts/sync-analytics.ts)
+ * - GET /api/analytics/summary    Totals and top values per dimension
+ * - GET /api/analytics/timeseries Clicks per day or hour
+ *
+ * All endpoints take since/until (Unix seconds, max 90 days apart) and exclude
+ * bot clicks unless include_bots=true. Aggregates are computed in D1.
+ *
+ * Auth is either the global ANALYTICS_API_KEY (all clicks) or a per-user token
+ * from api-tokens.ts, which limits every query to that user's links.
+ *
+ * Unique visitors count distinct visitor_hash values. The hash rotates daily,
+ * so over multi-day ranges this is unique visitors per day, summed.
+ */
+
+interface CountRow {
+  value: string | null
+  clicks: number
+  unique_visitors: number
+}
+
+interface BucketRow extends CountRow {
+  bucket: string
+}
+
+// Limit query range to prevent resource abuse (max 90 days)
+const MAX_RANGE_SECONDS = 90 * 24 * 60 * 60
+
+// Raw click pages (JSON) and D1 batch size when streaming NDJSON/CSV
+const DEFAULT_PAGE_SIZE = 1000
+const MAX_PAGE_SIZE = 5000
+const STREAM_BATCH_SIZE = 1000
+
+// Top-N rows per breakdown in /summary
+const DEFAULT_BREAKDOWN_LIMIT = 10
+const MAX_BREAKDOWN_LIMIT = 100
+
+// Hourly buckets are capped so a timeseries never exceeds ~720 points per group
+const MAX_HOURLY_RANGE_SECONDS = 30 * 24 * 60 * 60
+
+// Dimensions that can be grouped by (API name → SQL expression)
+const DIMENSIONS: Record<string, string> = {
+  slug: 'c.slug',
+  country: 'c.country',
+  city: 'c.city',
+  referrer_domain: 'c.referrer_domain',
+  source: 'c.source',
+  utm_source: 'c.utm_source',
+  utm_medium: 'c.utm_medium',
+  utm_campaign: 'c.utm_campaign',
+  channel: 'c.channel',
+  device_type: 'c.device_type',
+  browser: 'c.browser',
+  os: 'c.os',
+  target: 'c.target',
+  variant: 'c.variant',
+}
+
+const INTERVALS: Record<string, string> = {
+  day: '%Y-%m-%d',
+  hour: '%Y-%m-%dT%H:00:00Z',
+}
+
+/**
+ * Require the global analytics API key (constant-time comparison prevents timing attacks).
+ * Used on its own for the token admin routes.
+ */
+export const adminAuth: MiddlewareHandler = async (c, next) => {
+  const authHeader = c.req.header('Authorization') || ''
+  const expected = `Bearer ${c.env.ANALYTICS_API_KEY}`
+  const isValid = await constantTimeCompare(authHeader, expected)
+
+  if (!isValid) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  return next()
+}
+
+/**
+ * Accept the analytics API key or a per-user token.
+ * Token requests get an 'analyticsScope' that buildWhere turns into SQL filters.
+ */
+export const analyticsAuth: MiddlewareHandler = async (c, next) => {
+  const authHeader = c.req.header('Authorization') || ''
+  if (await constantTimeCompare(authHeader, `Bearer ${c.env.ANALYTICS_API_KEY}`)) {
+    c.set('analyticsScope', null)
+    return next()
+  }
+
+  const scope = authHeader.startsWith('Bearer ')
+    ? await verifyApiToken(c.env.DB, authHeader.slice('Bearer '.length))
+    : null
+  if (!scope) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  c.executionCtx.waitUntil(touchApiToken(c.env.DB, scope.tokenId))
+  c.set('analyticsScope', scope)
+  return next()
+}
+
+/**
+ * Parse the shared query parameters, or return an error message.
+ */
+function parseAnalyticsQuery(c: Context): AnalyticsQuery | { error: string; message?: string } {
+  // Parse time range (Unix timestamps)
+  const since = parseInt(c.req.query('since') || '0')
+  const until = parseInt(c.req.query('until') || String(Math.floor(Date.now() / 1000)))
+
+  if (isNaN(since) || isNaN(until)) {
+    return { error: 'Invalid time range' }
+  }
+
+  if (since > until) {
+    return { error: 'Invalid time range', message: 'since must be less than until' }
+  }
+
+  if (until - since > MAX_RANGE_SECONDS) {
+    return {
+      error: 'Range too large',
+      message: `Max query range is 90 days. Requested: ${Math.ceil((until - since) / 86400)} days`
+    }
+  }
+
+  return {
+    since,
+    until,
+    slug: c.req.query('slug') || null,
+    user: c.req.query('user') || null,
+    // Bot clicks are excluded unless explicitly requested
+    includeBots: c.req.query('include_bots') === 'true',
+    scope: c.get('analyticsScope') ?? null,
+  }
+}
+
+function queryMeta(query: AnalyticsQuery) {
+  return {
+    since: query.since,
+    until: query.until,
+    slug: query.slug,
+    user: query.user,
+    include_bots: query.includeBots,
+    scope: query.scope ? { user: query.scope.user, slugs: query.scope.slugs } : null,
+  }
+}
+
+/**
+ * Fetch one page of clicks in (clicked_at, id) order, starting after the cursor.
+ * Keyset pagination stays fast at any depth: the clicked_at indexes also carry
+ * the rowid (id), so each page is an index range scan.
+ */
+async function fetchClickPage(db: D1Database, query: AnalyticsQuery, after: Cursor | null, limit: number): Promise<ClickRow[]> {
+  const where = buildPageWhere(query, after)
+
+  const result = await db.prepare(`
+    SELECT
+      c.id,
+      c.slug,
+      c.clicked_at,
+      c.referrer,
+      c.country,
+      c.city,
+      c.device_type,
+      c.browser,
+      c.os,
+      c.visitor_hash,
+      c.target,
+      c.variant,
+      c.is_bot,
+      c.referrer_domain,
+      c.source,
+      c.utm_source,
+      c.utm_medium,
+      c.utm_campaign,
+      c.channel,
+      l.created_by
+    FROM clicks c
+    JOIN links l ON c.slug = l.slug
+    WHERE ${where.sql}
+    ORDER BY c.clicked_at ASC, c.id ASC
+    LIMIT ${limit}
+  `).bind(...where.params).all<ClickRow>()
+
+  return result.results || []
+}
+
+/**
+ * Stream every click in the range (from the cursor on) as NDJSON or CSV.
+ * Pages are pulled from D1 only as the client reads, so memory stays flat
+ * regardless of range size.
+ */
+function streamClicks(db: D1Database, query: AnalyticsQuery, after: Cursor | null, format: 'ndjson' | 'csv'): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  let cursor = after
+  let done = false
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (format === 'csv') {
+        controller.enqueue(encoder.encode(CSV_COLUMNS.join(',') + '\n'))
+      }
+    },
+    async pull(controller) {
+      if (done) return
+      try {
+        const rows = await fetchClickPage(db, query, cursor, STREAM_BATCH_SIZE)
+        if (rows.length > 0) {
+          const lines = rows.map((row) => formatClickLine(row, format))
+          controller.enqueue(encoder.encode(lines.join('\n') + '\n'))
+          const last = rows[rows.length - 1]
+          cursor = { clickedAt: last.clicked_at, id: last.id }
+        }
+        if (rows.length < STREAM_BATCH_SIZE) {
+          done = true
+          controller.close()
+        }
+      } catch (error) {
+        // Headers are already sent; erroring the stream truncates the body so clients notice
+        console.error('Analytics stream query failed:', error)
+        controller.error(error)
+      }
+    },
+  })
+}
+
+/**
+ * GET /api/analytics - raw clicks for a time range
+ *
+ * Query params (besides the shared ones):
+ *   format - "json" (default, paginated), "ndjson" or "csv" (streamed, whole range)
+ *   limit  - Page size for JSON (default 1000, max 5000)
+ *   cursor - next_cursor from the previous page (JSON) or where to resume a stream
+ */
+export async function handleAnalyticsExport(c: Context) {
+  const query = parseAnalyticsQuery(c)
+  if ('error' in query) {
+    return c.json(query, 400)
+  }
+
+  const format = c.req.query('format') || 'json'
+  if (format !== 'json' && format !== 'ndjson' && format !== 'csv') {
+    return c.json({ error: 'Invalid format', message: 'format must be one of: json, ndjson, csv' }, 400)
+  }
+
+  const cursorParam = c.req.query('cursor')
+  const cursor = cursorParam ? decodeCursor(cursorParam) : null
+  if (cursorParam && !cursor) {
+    return c.json({ error: 'Invalid cursor' }, 400)
+  }
+
+  if (format !== 'json') {
+    return c.body(streamClicks(c.env.DB, query, cursor, format), 200, {
+      'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson',
+      'Cache-Control': 'no-store',
+    })
+  }
+
+  const limit = parseInt(c.req.query('limit') || String(DEFAULT_PAGE_SIZE))
+  if (isNaN(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return c.json({ error: 'Invalid limit', message: `limit must be between 1 and ${MAX_PAGE_SIZE}` }, 400)
+  }
+
+  try {
+    // Fetch one extra row to know whether another page exists
+    const rows = await fetchClickPage(c.env.DB, query, cursor, limit + 1)
+    const clicks = rows.slice(0, limit)
+    const hasMore = rows.length > limit
+
+    return c.json({
+      clicks,
+      next_cursor: hasMore ? encodeCursor(clicks[clicks.length - 1]) : null,
+      meta: {
+        ...queryMeta(query),
+        count: clicks.length,
+        limit,
+      }
+    })
+  } catch (error) {
+    console.error('Analytics query failed:', error)
+    return c.json({ error: 'Database error' }, 500)
+  }
+}
+
+/**
+ * GET /api/analytics/summary - totals plus top values per dimension
+ *
+ * Query params (besides the shared ones):
+ *   dimensions - Comma-separated subset of DIMENSIONS (default: all)
+ *   limit      - Rows per dimension (default 10, max 100)
+ */
+export async function handleAnalyticsSummary(c: Context) {
+  const query = parseAnalyticsQuery(c)
+  if ('error' in query) {
+    return c.json(query, 400)
+  }
+
+  const requested = c.req.query('dimensions')?.split(',').map((d) => d.trim()).filter(Boolean) ?? Object.keys(DIMENSIONS)
+  const unknown = requested.filter((d) => !(d in DIMENSIONS))
+  if (unknown.length > 0) {
+    return c.json({ error: 'Invalid dimensions', message: `Unknown: ${unknown.join(', ')}. Allowed: ${Object.keys(DIMENSIONS).join(', ')}` }, 400)
+  }
+
+  const limit = parseInt(c.req.query('limit') || String(DEFAULT_BREAKDOWN_LIMIT))
+  if (isNaN(limit) || limit < 1 || limit > MAX_BREAKDOWN_LIMIT) {
+    return c.json({ error: 'Invalid limit', message: `limit must be between 1 and ${MAX_BREAKDOWN_LIMIT}` }, 400)
+  }
+
+  const where = buildWhere(query)
+
+  try {
+    const totals = c.env.DB.prepare(`
+      SELECT COUNT(*) AS clicks, COUNT(DISTINCT c.visitor_hash) AS unique_visitors
+      FROM clicks c
+      JOIN links l ON c.slug = l.slug
+      WHERE ${where.sql}
+    `).bind(...where.params)
+
+    const breakdowns = requested.map((dimension) => c.env.DB.prepare(`
+      SELECT ${DIMENSIONS[dimension]} AS value, COUNT(*) AS clicks, COUNT(DISTINCT c.visitor_hash) AS unique_visitors
+      FROM clicks c
+      JOIN links l ON c.slug = l.slug
+      WHERE ${where.sql}
+      GROUP BY value
+      ORDER BY clicks DESC, value ASC
+      LIMIT ${limit}
+    `).bind(...where.params))
+
+    // One round trip for the totals and every breakdown
+    const [totalsResult, ...breakdownResults] = await c.env.DB.batch([totals, ...breakdowns])
+    const totalsRow = (totalsResult.results?.[0] || { clicks: 0, unique_visitors: 0 }) as Omit<CountRow, 'value'>
+
+    return c.json({
+      clicks: totalsRow.clicks,
+      unique_visitors: totalsRow.unique_visitors,
+      breakdowns: Object.fromEntries(
+        requested.map((dimension, i) => [dimension, (breakdownResults[i].results || []) as CountRow[]])
+      ),
+      meta: {
+        ...queryMeta(query),
+        limit,
+      }
+    })
+  } catch (error) {
+    console.error('Analytics summary query failed:', error)
+    return c.json({ error: 'Database error' }, 500)
+  }
+}
+
+/**
+ * GET /api/analytics/timeseries - clicks per day or hour
+ *
+ * Query params (besides the shared ones):
+ *   interval - "day" (default) or "hour" (max 30-day range); buckets are UTC
+ *   group_by - Optional dimension to split each bucket by (e.g. slug, country)
+ *
+ * Buckets without clicks are omitted.
+ */
+export async function handleAnalyticsTimeseries(c: Context) {
+  const query = parseAnalyticsQuery(c)
+  if ('error' in query) {
+    return c.json(query, 400)
+  }
+
+  const interval = c.req.query('interval') || 'day'
+  if (!(interval in INTERVALS)) {
+    return c.json({ error: 'Invalid interval', message: `interval must be one of: ${Object.keys(INTERVALS).join(', ')}` }, 400)
+  }
+  if (interval === 'hour' && query.until - query.since > MAX_HOURLY_RANGE_SECONDS) {
+    return c.json({ error: 'Range too large', message: 'Max query range for hourly buckets is 30 days' }, 400)
+  }
+
+  const groupBy = c.req.query('group_by') || null
+  if (groupBy && !(groupBy in DIMENSIONS)) {
+    return c.json({ error: 'Invalid group_by', message: `group_by must be one of: ${Object.keys(DIMENSIONS).join(', ')}` }, 400)
+  }
+
+  const where = buildWhere(query)
+  const valueSql = groupBy ? DIMENSIONS[groupBy] : 'NULL'
+
+  try {
+    const result = await c.env.DB.prepare(`
+      SELECT
+        strftime('${INTERVALS[interval]}', c.clicked_at, 'unixepoch') AS bucket,
+        ${valueSql} AS value,
+        COUNT(*) AS clicks,
+        COUNT(DISTINCT c.visitor_hash) AS unique_visitors
+      FROM clicks c
+      JOIN links l ON c.slug = l.slug
+      WHERE ${where.sql}
+      GROUP BY bucket, value
+      ORDER BY bucket ASC, clicks DESC
+    `).bind(...where.params).all()
+
+    const rows = (result.results || []) as BucketRow[]
+
+    return c.json({
+      points: rows.map(({ bucket, value, clicks, unique_visitors }) =>
+        groupBy ? { bucket, [groupBy]: value, clicks, unique_visitors } : { bucket, clicks, unique_visitors }
+      ),
+      meta: {
+        ...queryMeta(query),
+        interval,
+        group_by: groupBy,
+      }
+    })
+  } catch (error) {
+    console.error('Analytics timeseries query failed:', error)
+    return c.json({ error: 'Database error' }, 500)
+  }
+}
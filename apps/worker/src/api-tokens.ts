@@ -0,0 +1,231 @@
+import { Context } from 'hono'
+import { constantTimeCompare, sha256Hex, toBase64Url } from './crypto'
+
+/**
+ * Per-user analytics API tokens
+ *
+ * Tokens look like gitly_<id>_<secret>. The id is stored in clear so a token can
+ * be looked up in one query; only a SHA-256 hash of the secret is stored, and it
+ * is compared with constantTimeCompare. Each token is scoped to one user's links
+ * (optionally to specific slugs) and that scope is applied as a SQL filter by
+ * the analytics handlers.
+ *
+ * Tokens are issued and revoked through /api/admin/tokens, which requires the
+ * global ANALYTICS_API_KEY.
+ */
+
+/** What an authenticated analytics request may read (null = everything) */
+export interface TokenScope {
+  tokenId: string
+  user: string
+  slugs: string[] | null // null = all of the user's links
+}
+
+interface ApiTokenRow {
+  id: string
+  token_hash: string
+  created_by: string
+  slugs: string | null
+  label: string | null
+  created_at: number
+  expires_at: number | null
+  revoked_at: number | null
+  last_used_at: number | null
+}
+
+const TOKEN_PATTERN = /^gitly_([0-9a-f]{16})_([A-Za-z0-9_-]{43})$/
+
+// Secret part: 32 random bytes (256 bits), base64url → 43 chars
+const TOKEN_SECRET_BYTES = 32
+
+// Limits for token creation
+const MAX_TOKEN_SLUGS = 100
+const MAX_LABEL_LENGTH = 100
+const MAX_EXPIRES_IN_DAYS = 365
+
+/**
+ * Resolve a bearer token to its scope.
+ * Returns null for unknown, malformed, revoked or expired tokens.
+ *
+ * @param db - D1 database
+ * @param token - Token from the Authorization header (without "Bearer ")
+ */
+export async function verifyApiToken(db: D1Database, token: string): Promise<TokenScope | null> {
+  const match = token.match(TOKEN_PATTERN)
+  if (!match) return null
+
+  const [, id, secret] = match
+  const row = await db.prepare(`
+    SELECT id, token_hash, created_by, slugs, expires_at, revoked_at
+    FROM api_tokens
+    WHERE id = ?1
+  `).bind(id).first<ApiTokenRow>()
+
+  // Hash even when the row is missing so unknown IDs take the same time
+  const presentedHash = await sha256Hex(secret)
+  if (!row) return null
+
+  const isValid = await constantTimeCompare(presentedHash, row.token_hash)
+  const now = Math.floor(Date.now() / 1000)
+  if (!isValid || row.revoked_at !== null || (row.expires_at !== null && row.expires_at <= now)) {
+    return null
+  }
+
+  return {
+    tokenId: row.id,
+    user: row.created_by,
+    slugs: row.slugs ? JSON.parse(row.slugs) : null,
+  }
+}
+
+/**
+ * Record when a token was last used (call via waitUntil; failures are only logged).
+ */
+export async function touchApiToken(db: D1Database, tokenId: string): Promise<void> {
+  try {
+    await db.prepare(`UPDATE api_tokens SET last_used_at = ?1 WHERE id = ?2`)
+      .bind(Math.floor(Date.now() / 1000), tokenId)
+      .run()
+  } catch (error) {
+    console.error('Failed to update token last_used_at:', error)
+  }
+}
+
+/** Token metadata returned by the admin API (never the hash) */
+function toTokenInfo(row: ApiTokenRow) {
+  return {
+    id: row.id,
+    user: row.created_by,
+    slugs: row.slugs ? JSON.parse(row.slugs) : null,
+    label: row.label,
+    created_at: row.created_at,
+    expires_at: row.expires_at,
+    revoked_at: row.revoked_at,
+    last_used_at: row.last_used_at,
+  }
+}
+
+function randomHex(bytes: number): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(bytes))).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * POST /api/admin/tokens - issue a token
+ *
+ * JSON body:
+ *   user            - Username (links/<user>/) whose clicks the token can read (required)
+ *   slugs           - Optional array of that user's slugs to restrict the token to
+ *   label           - Optional note, e.g. "grafana"
+ *   expires_in_days - Optional lifetime (1-365); omit for no expiry
+ *
+ * The token is only ever returned in this response.
+ */
+export async function handleCreateToken(c: Context) {
+  let body: Record<string, unknown>
+  try {
+    body = await c.req.json()
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400)
+  }
+
+  const user = body.user
+  if (typeof user !== 'string' || !/^[a-zA-Z0-9_-]+$/.test(user)) {
+    return c.json({ error: 'Invalid user', message: 'user must be a GitHub username' }, 400)
+  }
+
+  const slugs = body.slugs ?? null
+  if (slugs !== null && (!Array.isArray(slugs) || slugs.length === 0 || slugs.length > MAX_TOKEN_SLUGS || !slugs.every((s) => typeof s === 'string'))) {
+    return c.json({ error: 'Invalid slugs', message: `slugs must be an array of 1-${MAX_TOKEN_SLUGS} slugs` }, 400)
+  }
+
+  const label = body.label ?? null
+  if (label !== null && (typeof label !== 'string' || label.length > MAX_LABEL_LENGTH)) {
+    return c.json({ error: 'Invalid label', message: `label must be a string of at most ${MAX_LABEL_LENGTH} characters` }, 400)
+  }
+
+  const expiresInDays = body.expires_in_days ?? null
+  if (expiresInDays !== null && (!Number.isInteger(expiresInDays) || (expiresInDays as number) < 1 || (expiresInDays as number) > MAX_EXPIRES_IN_DAYS)) {
+    return c.json({ error: 'Invalid expires_in_days', message: `expires_in_days must be an integer between 1 and ${MAX_EXPIRES_IN_DAYS}` }, 400)
+  }
+
+  try {
+    // Slug-scoped tokens may only name the user's own (live) links
+    if (slugs) {
+      const owned = await c.env.DB.prepare(`
+        SELECT slug FROM links WHERE created_by = ?1 AND deleted_at IS NULL
+      `).bind(user).all()
+      const ownedSlugs = new Set(((owned.results || []) as Array<{ slug: string }>).map((row) => row.slug))
+      const foreign = (slugs as string[]).filter((slug) => !ownedSlugs.has(slug))
+      if (foreign.length > 0) {
+        return c.json({ error: 'Invalid slugs', message: `Not links of ${user}: ${foreign.join(', ')}` }, 400)
+      }
+    }
+
+    const now = Math.floor(Date.now() / 1000)
+    const id = randomHex(8)
+    const secret = toBase64Url(crypto.getRandomValues(new Uint8Array(TOKEN_SECRET_BYTES)))
+    const row: ApiTokenRow = {
+      id,
+      token_hash: await sha256Hex(secret),
+      created_by: user,
+      slugs: slugs ? JSON.stringify(slugs) : null,
+      label: label as string | null,
+      created_at: now,
+      expires_at: expiresInDays ? now + (expiresInDays as number) * 86400 : null,
+      revoked_at: null,
+      last_used_at: null,
+    }
+
+    await c.env.DB.prepare(`
+      INSERT INTO api_tokens (id, token_hash, created_by, slugs, label, created_at, expires_at)
+      VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7)
+    `).bind(row.id, row.token_hash, row.created_by, row.slugs, row.label, row.created_at, row.expires_at).run()
+
+    return c.json({ token: `gitly_${id}_${secret}`, ...toTokenInfo(row) }, 201)
+  } catch (error) {
+    console.error('Token creation failed:', error)
+    return c.json({ error: 'Database error' }, 500)
+  }
+}
+
+/**
+ * GET /api/admin/tokens?user=<username> - list tokens (optionally for one user)
+ */
+export async function handleListTokens(c: Context) {
+  const user = c.req.query('user') || null
+
+  try {
+    const result = await c.env.DB.prepare(`
+      SELECT id, token_hash, created_by, slugs, label, created_at, expires_at, revoked_at, last_used_at
+      FROM api_tokens
+      ${user ? 'WHERE created_by = ?1' : ''}
+      ORDER BY created_at DESC
+    `).bind(...(user ? [user] : [])).all()
+
+    return c.json({ tokens: ((result.results || []) as ApiTokenRow[]).map(toTokenInfo) })
+  } catch (error) {
+    console.error('Token list query failed:', error)
+    return c.json({ error: 'Database error' }, 500)
+  }
+}
+
+/**
+ * DELETE /api/admin/tokens/:id - revoke a token (kept for auditing)
+ */
+export async function handleRevokeToken(c: Context) {
+  const id = c.req.param('id')
+
+  try {
+    const result = await c.env.DB.prepare(`
+      UPDATE api_tokens SET revoked_at = ?1 WHERE id = ?2 AND revoked_at IS NULL
+    `).bind(Math.floor(Date.now() / 1000), id).run()
+
+    if (!result.meta?.changes) {
+      return c.json({ error: 'Not found', message: 'No active token with that id' }, 404)
+    }
+    return c.json({ id, revoked: true })
+  } catch (error) {
+    console.error('Token revoke failed:', error)
+    return c.json({ error: 'Database error' }, 500)
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Unit tests for bot classification
+ * Run with: npx tsx bot-detector.test.ts
+ */
+
+import { classifyBot, BotSignals } from './bot-detector'
+
+const CHROME_UA = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+const IPHONE_UA = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1'
+const CUBOT_UA = 'Mozilla/5.0 (Linux; Android 11; CUBOT X30) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36'
+
+const human = (userAgent: string | null): BotSignals => ({ userAgent, acceptLanguage: 'en-US,en;q=0.9' })
+
+const testCases: Array<{
+  signals: BotSignals
+  expected: string | null // Expected reason (null = human)
+  description: string
+}> = [
+  // Real browsers
+  { signals: human(CHROME_UA), expected: null, description: 'Desktop Chrome is human' },
+  { signals: human(IPHONE_UA), expected: null, description: 'iPhone Safari is human' },
+  { signals: human(CUBOT_UA), expected: null, description: 'CUBOT phone is not mistaken for a bot' },
+
+  // User-Agent patterns
+  { signals: human('Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)'), expected: 'crawler', description: 'Googlebot' },
+  { signals: human('Mozilla/5.0 (compatible; AhrefsBot/7.0; +http://ahrefs.com/robot/)'), expected: 'crawler', description: 'SEO crawler' },
+  { signals: human('Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) HeadlessChrome/120.0.0.0 Safari/537.36'), expected: 'headless', description: 'Headless Chrome' },
+  { signals: human('Mozilla/5.0+(compatible; UptimeRobot/2.0; http://www.uptimerobot.com/)'), expected: 'monitor', description: 'Uptime monitor' },
+  { signals: human('Mozilla/5.0 (compatible; Nmap Scripting Engine; https://nmap.org/book/nse.html)'), expected: 'scanner', description: 'Security scanner' },
+  { signals: human('Slackbot-LinkExpanding 1.0 (+https://api.slack.com/robots)'), expected: 'social-crawler', description: 'Slack unfurler' },
+  { signals: human('facebookexternalhit/1.1 Facebot Twitterbot/1.0'), expected: 'social-crawler', description: 'iMessage preview (Facebook UA)' },
+  { signals: human('curl/8.4.0'), expected: 'http-client', description: 'curl' },
+  { signals: human('python-requests/2.31.0'), expected: 'http-client', description: 'Python requests' },
+  { signals: human('Go-http-client/2.0'), expected: 'http-client', description: 'Go HTTP client' },
+
+  // Missing headers
+  { signals: human(null), expected: 'missing-user-agent', description: 'Missing User-Agent' },
+  { signals: { userAgent: CHROME_UA, acceptLanguage: null }, expected: 'missing-accept-language', description: 'Browser UA without Accept-Language' },
+
+  // Cloudflare Bot Management
+  { signals: { ...human(CHROME_UA), botManagement: { score: 1 } }, expected: 'bot-score', description: 'Low bot score' },
+  { signals: { ...human(CHROME_UA), botManagement: { score: 85 } }, expected: null, description: 'High bot score is human' },
+  { signals: { ...human(CHROME_UA), botManagement: { score: 0 } }, expected: null, description: 'Score 0 (not computed) is ignored' },
+  { signals: { ...human(CHROME_UA), botManagement: { score: 90, verifiedBot: true } }, expected: 'verified-bot', description: 'Verified bot' },
+]
+
+let passed = 0
+let failed = 0
+
+console.log('Running bot classification tests...\n')
+
+for (const { signals, expected, description } of testCases) {
+  const verdict = classifyBot(signals)
+
+  if (verdict.reason === expected && verdict.isBot === (expected !== null)) {
+    console.log(`✓ ${description}`)
+    passed++
+  } else {
+    console.log(`✗ ${description}`)
+    console.log(`  UA: ${signals.userAgent}`)
+    console.log(`  Expected: ${expected}`)
+    console.log(`  Actual: ${verdict.reason} (isBot: ${verdict.isBot})`)
+    failed++
+  }
+}
+
+console.log(`\n${passed} passed, ${failed} failed`)
+
+if (failed > 0) {
+  process.exit(1)
+}
@@ -0,0 +1,73 @@
+/**
+ * Bot classification for click analytics.
+ *
+ * Uptime monitors, security scanners, HTTP libraries, headless browsers and
+ * link-preview crawlers all follow short links, and counting them inflates links.clicks. Clicks are still
+ * stored (with is_bot = 1) so they can be inspected, but they're excluded from
+ * totals and from /api/analytics unless include_bots is set.
+ *
+ * Signals, strongest first:
+ * 1. Cloudflare Bot Management (cf.botManagement) when the zone has it
+ * 2. Missing, link-preview crawler (ua-parser.ts) or known-automation User-Agent
+ * 3. Missing Accept-Language (every mainstream browser sends it)
+ */
+
+import { detectSocialCrawler } from './ua-parser'
+
+export interface BotSignals {
+  userAgent: string | null
+  acceptLanguage: string | null
+  botManagement?: { score?: number; verifiedBot?: boolean } | null
+}
+
+export interface BotVerdict {
+  isBot: boolean
+  reason: string | null // Why the request was classified as a bot (for logs/debugging)
+}
+
+// Cloudflare bot scores: 1 = automated, 2-29 = likely automated, 30-99 = likely human
+const BOT_SCORE_THRESHOLD = 30
+
+// Known automation User-Agents, grouped by what they are. Matched case-insensitively.
+const BOT_UA_PATTERNS: Array<[RegExp, string]> = [
+  [/headlesschrome|phantomjs|puppeteer|playwright|selenium|webdriver|electron\/.*headless/i, 'headless'],
+  [/uptimerobot|pingdom|statuscake|site24x7|betteruptime|better uptime|freshping|newrelicpinger|datadog|checkly|hetrixtools/i, 'monitor'],
+  [/nmap|nikto|zgrab|masscan|sqlmap|nuclei|censys|expanse|internet-measurement|wpscan|acunetix|qualys/i, 'scanner'],
+  [/^curl\/|^wget\/|python-requests|python-urllib|aiohttp|httpx|go-http-client|^java\/|apache-httpclient|okhttp|axios|node-fetch|undici|libwww-perl|^ruby|guzzlehttp|postmanruntime|insomnia/i, 'http-client'],
+  // "bot/" rather than "bot" alone so device names like CUBOT don't match
+  [/bot\/|\bbot\b|\+https?:\/\/|crawler|spider|slurp|archiver|fetcher|scraper|linkcheck/i, 'crawler'],
+]
+
+/**
+ * Classify a request as bot or human.
+ */
+export function classifyBot(signals: BotSignals): BotVerdict {
+  const { userAgent, acceptLanguage, botManagement } = signals
+
+  if (botManagement?.verifiedBot) {
+    return { isBot: true, reason: 'verified-bot' }
+  }
+  if (typeof botManagement?.score === 'number' && botManagement.score > 0 && botManagement.score < BOT_SCORE_THRESHOLD) {
+    return { isBot: true, reason: 'bot-score' }
+  }
+
+  if (!userAgent) {
+    return { isBot: true, reason: 'missing-user-agent' }
+  }
+
+  if (detectSocialCrawler(userAgent)) {
+    return { isBot: true, reason: 'social-crawler' }
+  }
+
+  for (const [pattern, category] of BOT_UA_PATTERNS) {
+    if (pattern.test(userAgent)) {
+      return { isBot: true, reason: category }
+    }
+  }
+
+  if (!acceptLanguage) {
+    return { isBot: true, reason: 'missing-accept-language' }
+  }
+
+  return { isBot: false, reason: null }
+}
@@ -38,3 +38,87 @@ export async function constantTimeCompare(a: string, b: string): Promise<boolean
   }
   return result === 0
 }
+
+// Password hash format written by scripts/hash-password.ts:
+//   pbkdf2-sha256$<iterations>$<salt base64url>$<hash base64url>
+// Workers cap PBKDF2 at 100,000 iterations, so the script never exceeds that.
+const PASSWORD_HASH_PATTERN = /^pbkdf2-sha256\$(\d+)\$([A-Za-z0-9_-]+)\$([A-Za-z0-9_-]+)$/
+const MAX_PBKDF2_ITERATIONS = 100_000
+
+/**
+ * Encode bytes as unpadded base64url (matches Node's Buffer 'base64url')
+ */
+export function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'))
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+/**
+ * Verify a password against a stored PBKDF2-SHA256 hash.
+ * Malformed hashes never verify (rather than throwing) so a bad links.csv
+ * entry locks the link instead of opening it.
+ *
+ * @param password Password submitted by the visitor
+ * @param storedHash Hash from LinkData.passwordHash
+ */
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const match = storedHash.match(PASSWORD_HASH_PATTERN)
+  if (!match) return false
+
+  const iterations = Number(match[1])
+  if (iterations < 1 || iterations > MAX_PBKDF2_ITERATIONS) return false
+
+  let salt: Uint8Array
+  let expected: Uint8Array
+  try {
+    salt = fromBase64Url(match[2])
+    expected = fromBase64Url(match[3])
+  } catch {
+    return false // Invalid base64
+  }
+  if (expected.length === 0) return false
+
+  const key = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits'])
+  const derived = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    expected.length * 8
+  )
+
+  return constantTimeCompare(toBase64Url(new Uint8Array(derived)), match[3])
+}
+
+/**
+ * HMAC-SHA256 sign a value, returning a base64url signature.
+ *
+ * @param value Value to sign
+ * @param secret Signing secret
+ */
+export async function hmacSign(value: string, secret: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(value))
+  return toBase64Url(new Uint8Array(signature))
+}
+
+/**
+ * SHA-256 hex digest of a string.
+ * Suitable for high-entropy secrets (API tokens); use PBKDF2 for passwords.
+ *
+ * @param value Value to hash
+ */
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(value))
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('')
+}
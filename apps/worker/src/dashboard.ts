@@ -1,14 +1,22 @@
 import { Context } from 'hono'
+import { isExpired, publicUrl, HIDDEN_DESTINATION } from './link-data'
+import { DEAD_AFTER_FAILURES } from './link-health'
+import { escapeHtml } from './html'
+import { exportPageCount } from './qr-export'
 
 interface LinkWithClicks {
   slug: string
   url: string
   created_at: number
+  expires_at: number | null
   clicks: number
+  last_checked_at: number | null
+  check_failures: number
+  password_protected: number
 }
 
-// CSS for the dashboard - minimal, mobile-responsive
-const styles = `
+// CSS for the dashboard - minimal, mobile-responsive (also used by the link preview page)
+export const styles = `
   * { box-sizing: border-box; margin: 0; padding: 0; }
   body {
     font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
@@ -38,6 +46,8 @@ const styles = `
     font-size: 0.9rem;
     color: #888;
   }
+  .stats a { color: #888; }
+  .stats a:hover { color: #fafafa; }
   .links {
     display: flex;
     flex-direction: column;
@@ -146,6 +156,29 @@ const styles = `
     border-radius: 9999px;
     font-weight: 500;
   }
+  a.clicks {
+    text-decoration: none;
+  }
+  a.clicks:hover {
+    background: #264a75;
+  }
+  .expired {
+    background: #3f1d1d;
+    color: #f87171;
+    padding: 0.125rem 0.5rem;
+    border-radius: 9999px;
+    font-weight: 500;
+  }
+  .dead {
+    background: #3f2e12;
+    color: #fbbf24;
+    padding: 0.125rem 0.5rem;
+    border-radius: 9999px;
+    font-weight: 500;
+  }
+  .link-card.is-expired {
+    opacity: 0.6;
+  }
   .empty {
     text-align: center;
     padding: 3rem 1rem;
@@ -286,7 +319,7 @@ async function copyQrImage(btn, url) {
 </script>
 `
 
-function formatDate(timestamp: number): string {
+export function formatDate(timestamp: number): string {
   return new Date(timestamp * 1000).toLocaleDateString('en-US', {
     month: 'short',
     day: 'numeric',
@@ -294,15 +327,6 @@ function formatDate(timestamp: number): string {
   })
 }
 
-function escapeHtml(str: string): string {
-  return str
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&#039;')
-}
-
 function truncateUrl(url: string, maxLength = 60): string {
   if (url.length <= maxLength) return url
   return url.slice(0, maxLength - 3) + '...'
@@ -327,9 +351,9 @@ export async function handleDashboard(c: Context): Promise<Response> {
   try {
     // Fetch user's links with click counts
     const result = await c.env.DB.prepare(`
-      SELECT slug, url, created_at, clicks
+      SELECT slug, url, created_at, expires_at, clicks, last_checked_at, check_failures, password_protected
       FROM links
-      WHERE created_by = ?1
+      WHERE created_by = ?1 AND deleted_at IS NULL
       ORDER BY created_at DESC
     `).bind(username).all<LinkWithClicks>()
 
@@ -345,27 +369,43 @@ export async function handleDashboard(c: Context): Promise<Response> {
     }
 
     // Generate HTML
+    const now = Math.floor(Date.now() / 1000)
     const linksHtml = links.length > 0 
-      ? links.map(link => `
-        <div class="link-card">
+      ? links.map(link => {
+        const expired = isExpired(link.expires_at, now)
+        // Expired links render as "Expired"; links with a future expiry show when they will stop working
+        const expiryHtml = expired
+          ? `<span class="expired">Expired ${formatDate(link.expires_at as number)}</span>`
+          : link.expires_at
+            ? `<span>Expires ${formatDate(link.expires_at)}</span>`
+            : ''
+        // Link-rot checker: flag destinations that failed several checks in a row
+        const deadHtml = !expired && link.check_failures >= DEAD_AFTER_FAILURES && link.last_checked_at
+          ? `<span class="dead" title="Destination failed the last ${link.check_failures} checks (last checked ${formatDate(link.last_checked_at)})">Destination unreachable</span>`
+          : ''
+        return `
+        <div class="link-card${expired ? ' is-expired' : ''}">
           <div class="qr-code">
-            <img src="/${escapeHtml(link.slug)}/qr?size=80" alt="QR code for ${escapeHtml(link.slug)}" loading="lazy">
+            ${expired ? '' : `<img src="/${escapeHtml(link.slug)}/qr?size=80" alt="QR code for ${escapeHtml(link.slug)}" loading="lazy">`}
           </div>
           <div class="link-info">
             <div class="slug">
               <a href="/${escapeHtml(link.slug)}" target="_blank">gitly.sh/${escapeHtml(link.slug)}</a>
             </div>
-            <div class="target">${escapeHtml(truncateUrl(link.url))}</div>
+            <div class="target">${escapeHtml(truncateUrl(publicUrl(link) ?? HIDDEN_DESTINATION))}</div>
             <div class="meta">
-              <span class="clicks">${link.clicks || 0} clicks</span>
+              <a class="clicks" href="/@${escapeHtml(username)}/${escapeHtml(link.slug)}" title="View analytics">${link.clicks || 0} clicks</a>
               <span>Created ${formatDate(link.created_at)}</span>
+              ${expiryHtml}
+              ${deadHtml}
             </div>
             <div class="qr-sizes">
-              ${generateQrSizeButtons(link.slug)}
+              ${expired ? '' : generateQrSizeButtons(link.slug)}
             </div>
           </div>
         </div>
-      `).join('')
+      `
+      }).join('')
       : `
         <div class="empty">
           <h2>No links yet</h2>
@@ -373,6 +413,13 @@ export async function handleDashboard(c: Context): Promise<Response> {
         </div>
       `
 
+    // QR exports (qr-zip.ts) come in pages of active links
+    const exportUrl = `/@${escapeHtml(username)}/qr.zip`
+    const exportPages = exportPageCount(links.filter((link: LinkWithClicks) => !isExpired(link.expires_at, now)).length)
+    const exportHtml = exportPages > 1
+      ? ` · Download all QR codes: ${Array.from({ length: exportPages }, (_, i) => `<a href="${exportUrl}?page=${i + 1}">part ${i + 1}</a>`).join(' ')}`
+      : exportPages === 1 ? ` · <a href="${exportUrl}">Download all QR codes</a>` : ''
+
     const html = `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -386,7 +433,7 @@ export async function handleDashboard(c: Context): Promise<Response> {
   <div class="container">
     <header>
       <h1>@${escapeHtml(username)}<span>'s links</span></h1>
-      <div class="stats">${links.length} link${links.length !== 1 ? 's' : ''} · ${totalClicks} total click${totalClicks !== 1 ? 's' : ''}</div>
+      <div class="stats">${links.length} link${links.length !== 1 ? 's' : ''} · ${totalClicks} total click${totalClicks !== 1 ? 's' : ''}${exportHtml}${links.length > 0 ? ` · <a href="/@${escapeHtml(username)}/labels.pdf">Print labels</a>` : ''}</div>
     </header>
     <div class="links">
       ${linksHtml}
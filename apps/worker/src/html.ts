@@ -0,0 +1,15 @@
+/**
+ * HTML escaping shared by the server-rendered pages and SVG output
+ */
+
+/**
+ * Escape text for use in HTML or XML content and quoted attribute values.
+ */
+export function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;')
+}
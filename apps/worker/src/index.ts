@@ -1,39 +1,35 @@
-import { Hono } from 'hono'
+import { Context, Hono } from 'hono'
 import { handleQR } from './qr'
+import { handleQRZip } from './qr-zip'
+import { handleQRLabels } from './qr-labels'
 import { handleLogo } from './logo'
 import { handleDashboard } from './dashboard'
-import { parseUserAgent, hashIP, validateHashSecret } from './ua-parser'
-import { constantTimeCompare } from './crypto'
+import { escapeHtml } from './html'
+import { parseUserAgent, detectSocialCrawler, hashIP, validateHashSecret } from './ua-parser'
 import { createRateLimiter, getClientIP, compositeKey, RateLimitBinding } from './rate-limit'
+import { LinkData, parseLinkData, isExpired } from './link-data'
+import { hasLinkAccess, renderPasswordPage, handlePasswordSubmit } from './password'
+import { handlePreview } from './preview'
+import { handleLinkStats } from './link-stats'
+import { handleLinkHealth, runLinkChecks } from './link-health'
+import { renderUnfurlPage } from './unfurl'
+import { classifyBot } from './bot-detector'
+import { normalizeReferrer } from './referrer'
+import { adminAuth, analyticsAuth, handleAnalyticsExport, handleAnalyticsSummary, handleAnalyticsTimeseries } from './analytics'
+import { handleCreateToken, handleListTokens, handleRevokeToken } from './api-tokens'
+import { joinPathSuffix, applyQueryParams, extractScanChannel, selectDeviceTarget, selectGeoTarget, selectSplitVariant, splitBucket, resolveRedirectStatus, redirectCacheControl } from './redirect'
 
 type Bindings = {
   LINKS: KVNamespace
   DB: D1Database
-  ANALYTICS_API_KEY: string // Secret for analytics export
+  ANALYTICS_API_KEY: string // Secret for analytics export (full access) and token admin
   HASH_SECRET: string // Secret pepper for visitor IP hashing (prevents pre-computation attacks)
+  COOKIE_SECRET: string // Signs access cookies for password-protected links
   // Rate limiting bindings (Cloudflare Workers Rate Limiting API)
   QR_RATE_LIMITER: RateLimitBinding
   ANALYTICS_RATE_LIMITER: RateLimitBinding
   REDIRECT_RATE_LIMITER: RateLimitBinding
-}
-
-interface LinkData {
-  url: string
-  createdAt: number
-  createdBy: string
-}
-
-interface ClickRow {
-  slug: string
-  clicked_at: number
-  referrer: string | null
-  country: string | null
-  city: string | null
-  device_type: string
-  browser: string
-  os: string
-  visitor_hash: string
-  created_by: string // Joined from links table
+  PASSWORD_RATE_LIMITER: RateLimitBinding
 }
 
 // Security: Limit stored User-Agent length to prevent storage abuse
@@ -87,6 +83,75 @@ app.use('*', async (c, next) => {
 // Health check (no rate limiting - used for monitoring)
 app.get('/health', (c) => c.json({ status: 'ok' }))
 
+// Bulk QR export: every link a user owns as a QR code, zipped with a manifest
+// Registered (like labels.pdf below) before the per-link analytics page, which would otherwise treat qr.zip as a slug
+// Limit: QR_RATE_LIMITER per IP+username for the export, plus per IP+slug for each code
+app.get('/:username{@[a-zA-Z0-9_-]+}/qr.zip',
+  createRateLimiter(
+    (c) => c.env.QR_RATE_LIMITER,
+    {
+      keyFunc: (c) => {
+        const ip = getClientIP(c)
+        const username = c.req.param('username').slice(1)
+        return compositeKey(ip, `qr.zip:${username}`)
+      },
+      errorResponse: (c) => c.json(
+        {
+          error: 'Too Many Requests',
+          message: 'QR export rate limit exceeded. Please wait before retrying.',
+          retryAfter: 10
+        },
+        429,
+        { 'Retry-After': '10' }
+      )
+    }
+  ),
+  (c) => handleQRZip(c, c.req.param('username').slice(1))
+)
+
+// Printable QR label sheets (PDF) for a user's links
+// Limit: QR_RATE_LIMITER per IP+username
+app.get('/:username{@[a-zA-Z0-9_-]+}/labels.pdf',
+  createRateLimiter(
+    (c) => c.env.QR_RATE_LIMITER,
+    {
+      keyFunc: (c) => {
+        const ip = getClientIP(c)
+        const username = c.req.param('username').slice(1)
+        return compositeKey(ip, `labels:${username}`)
+      },
+      errorResponse: (c) => c.json(
+        {
+          error: 'Too Many Requests',
+          message: 'QR label rate limit exceeded. Please wait before retrying.',
+          retryAfter: 10
+        },
+        429,
+        { 'Retry-After': '10' }
+      )
+    }
+  ),
+  (c) => handleQRLabels(c, c.req.param('username').slice(1))
+)
+
+// Per-link analytics page: /@username/slug (e.g. gitly.sh/@andrewmurphyio/gh)
+// Registered before /:slug/qr so a link named "qr" still gets its own page
+// Public but runs several D1 aggregates per view: limited per IP on the analytics limiter
+app.get('/:username{@[a-zA-Z0-9_-]+}/:slug',
+  createRateLimiter(
+    (c) => c.env.ANALYTICS_RATE_LIMITER,
+    {
+      keyFunc: (c) => compositeKey(getClientIP(c), 'stats'),
+      errorResponse: (c) => c.html(
+        '<!DOCTYPE html><html><head><title>Rate Limited</title></head><body><h1>Too Many Requests</h1><p>Please wait a minute before viewing more analytics pages.</p></body></html>',
+        429,
+        { 'Retry-After': '60' }
+      )
+    }
+  ),
+  (c) => handleLinkStats(c, c.req.param('username').slice(1), c.req.param('slug'))
+)
+
 // QR code endpoint - strict rate limiting (CPU-expensive with logo processing)
 // Limit: 10 requests per 10 seconds per IP+slug combo
 app.get('/:slug/qr', 
@@ -137,101 +202,48 @@ app.get('/api/logo/:username',
   handleLogo
 )
 
-// Analytics API - protected by API key with rate limiting
+// Analytics API - protected by API key with rate limiting (shared by all analytics endpoints)
 // Limit: 30 requests per 60 seconds per API key
-app.get('/api/analytics',
-  createRateLimiter(
-    (c) => c.env.ANALYTICS_RATE_LIMITER,
-    {
-      keyFunc: (c) => {
-        // Rate limit by API key (or IP if no auth header)
-        const authHeader = c.req.header('Authorization') || ''
-        return authHeader || getClientIP(c)
+const analyticsRateLimiter = createRateLimiter(
+  (c) => c.env.ANALYTICS_RATE_LIMITER,
+  {
+    keyFunc: (c) => {
+      // Rate limit by API key (or IP if no auth header)
+      const authHeader = c.req.header('Authorization') || ''
+      return authHeader || getClientIP(c)
+    },
+    errorResponse: (c) => c.json(
+      { 
+        error: 'Too Many Requests',
+        message: 'Analytics API rate limit exceeded. Limit: 30 requests per minute.',
+        retryAfter: 60
       },
-      errorResponse: (c) => c.json(
-        { 
-          error: 'Too Many Requests',
-          message: 'Analytics API rate limit exceeded. Limit: 30 requests per minute.',
-          retryAfter: 60
-        },
-        429,
-        { 'Retry-After': '60' }
-      )
-    }
-  ),
-  async (c) => {
-  // Verify API key using constant-time comparison to prevent timing attacks
-  const authHeader = c.req.header('Authorization') || ''
-  const expected = `Bearer ${c.env.ANALYTICS_API_KEY}`
-  const isValid = await constantTimeCompare(authHeader, expected)
-  
-  if (!isValid) {
-    return c.json({ error: 'Unauthorized' }, 401)
-  }
-
-  // Parse time range (Unix timestamps)
-  const since = parseInt(c.req.query('since') || '0')
-  const until = parseInt(c.req.query('until') || String(Math.floor(Date.now() / 1000)))
-
-  if (isNaN(since) || isNaN(until)) {
-    return c.json({ error: 'Invalid time range' }, 400)
+      429,
+      { 'Retry-After': '60' }
+    )
   }
+)
 
-  if (since > until) {
-    return c.json({ error: 'Invalid time range', message: 'since must be less than until' }, 400)
-  }
+app.get('/api/analytics', analyticsRateLimiter, analyticsAuth, handleAnalyticsExport)
+app.get('/api/analytics/summary', analyticsRateLimiter, analyticsAuth, handleAnalyticsSummary)
+app.get('/api/analytics/timeseries', analyticsRateLimiter, analyticsAuth, handleAnalyticsTimeseries)
 
-  // Limit query range to prevent resource abuse (max 90 days)
-  const MAX_RANGE_SECONDS = 90 * 24 * 60 * 60
-  if (until - since > MAX_RANGE_SECONDS) {
-    return c.json({ 
-      error: 'Range too large', 
-      message: `Max query range is 90 days. Requested: ${Math.ceil((until - since) / 86400)} days`
-    }, 400)
-  }
+// Link-rot check results for a link (public; never includes the destination)
+// Registered before /:slug/* so the redirect handler doesn't claim /api/...
+app.get('/api/links/:slug/health', analyticsRateLimiter, handleLinkHealth)
 
-  try {
-    // Fetch clicks with username from links table
-    const result = await c.env.DB.prepare(`
-      SELECT 
-        c.slug,
-        c.clicked_at,
-        c.referrer,
-        c.country,
-        c.city,
-        c.device_type,
-        c.browser,
-        c.os,
-        c.visitor_hash,
-        l.created_by
-      FROM clicks c
-      JOIN links l ON c.slug = l.slug
-      WHERE c.clicked_at >= ?1 AND c.clicked_at < ?2
-      ORDER BY c.clicked_at ASC
-    `).bind(since, until).all<ClickRow>()
-
-    return c.json({
-      clicks: result.results,
-      meta: {
-        since,
-        until,
-        count: result.results?.length || 0,
-      }
-    })
-  } catch (error) {
-    console.error('Analytics query failed:', error)
-    return c.json({ error: 'Database error' }, 500)
-  }
-})
+// Per-user analytics tokens (admin only: requires the global ANALYTICS_API_KEY)
+app.post('/api/admin/tokens', analyticsRateLimiter, adminAuth, handleCreateToken)
+app.get('/api/admin/tokens', analyticsRateLimiter, adminAuth, handleListTokens)
+app.delete('/api/admin/tokens/:id', analyticsRateLimiter, adminAuth, handleRevokeToken)
 
 // User dashboard - public profile page showing all links
 // Route: /@username (e.g. gitly.sh/@andrewmurphyio)
 app.get('/@:username', handleDashboard)
 
-// Redirect handler with click tracking and rate limiting
+// Redirect rate limiting (shared by exact and prefix routes)
 // Limit: 60 requests per 10 seconds per IP+slug combo (prevents click inflation)
-app.get('/:slug',
-  createRateLimiter(
+const redirectRateLimiter = createRateLimiter(
     (c) => c.env.REDIRECT_RATE_LIMITER,
     {
       keyFunc: (c) => {
@@ -268,14 +280,51 @@ app.get('/:slug',
         )
       }
     }
-  ),
-  async (c) => {
+  )
+
+// Redirect handler with click tracking and rate limiting
+app.get('/:slug', redirectRateLimiter, handleRedirect)
+
+// Prefix links: /:slug/rest/of/path forwards the suffix to the link's URL
+// Registered after /:slug/qr so QR codes always win for that exact path
+app.get('/:slug/*', redirectRateLimiter, handleRedirect)
+
+// Password form submissions for protected links - strict rate limiting (prevents guessing)
+// Limit: 5 attempts per 60 seconds per IP+slug combo
+const passwordRateLimiter = createRateLimiter(
+  (c) => c.env.PASSWORD_RATE_LIMITER,
+  {
+    keyFunc: (c) => {
+      const ip = getClientIP(c)
+      const slug = c.req.param('slug')
+      return compositeKey(ip, `password:${slug}`)
+    },
+    errorResponse: (c) => c.html(
+      renderPasswordPage(c.req.param('slug') || '', 'Too many attempts. Please wait a minute and try again.'),
+      429,
+      { 'Retry-After': '60' }
+    )
+  }
+)
+
+app.post('/:slug', passwordRateLimiter, handlePasswordSubmit)
+app.post('/:slug/*', passwordRateLimiter, handlePasswordSubmit)
+
+async function handleRedirect(c: Context<{ Bindings: Bindings }>) {
   const slug = c.req.param('slug')
+
+  // Path after /:slug, still percent-encoded (empty for exact matches and a bare trailing slash)
+  const suffix = new URL(c.req.url).pathname.split('/').slice(2).join('/')
   
   // Handle @username profile pages (Hono's router may match /:slug before /@:username)
   // This ensures gitly.sh/@username correctly shows the user's dashboard
   if (slug.startsWith('@')) {
-    return handleDashboard(c)
+    return suffix ? c.notFound() : handleDashboard(c)
+  }
+
+  // gitly.sh/<slug>+ shows a preview page instead of redirecting
+  if (slug.endsWith('+')) {
+    return suffix ? c.notFound() : handlePreview(c, slug.slice(0, -1))
   }
   
   // Skip reserved slugs (case-insensitive, matches scripts/sync-links.ts validation)
@@ -291,36 +340,141 @@ app.get('/:slug',
   }
 
   // Parse link data
-  let linkData: LinkData
-  try {
-    linkData = JSON.parse(linkDataRaw)
-  } catch {
-    // Legacy format: raw URL string
-    linkData = { url: linkDataRaw, createdAt: 0, createdBy: 'unknown' }
+  const linkData: LinkData = parseLinkData(linkDataRaw)
+
+  // Expired links stay in KV so we can tell visitors the link is gone (not just unknown)
+  if (isExpired(linkData.expiresAt)) {
+    return c.html(renderGonePage(slug), 410)
+  }
+
+  // Password-protected links show a form until the visitor has a valid access cookie
+  if (linkData.passwordHash && !(await hasLinkAccess(c, slug, linkData.passwordHash))) {
+    return c.html(renderPasswordPage(slug), 200, { 'Cache-Control': 'no-store' })
+  }
+
+  // From here the response depends on the User-Agent (crawler page, platform targets);
+  // keep shared caches from mixing them up
+  c.header('Vary', 'User-Agent')
+
+  // Link-preview crawlers get an Open Graph page (the link's og_* columns, else defaults)
+  // instead of the redirect; their hit is recorded as a bot click
+  if (!suffix && detectSocialCrawler(c.req.header('User-Agent') || null)) {
+    const { channel } = extractScanChannel(new URL(c.req.url).searchParams)
+    c.executionCtx.waitUntil(recordClick(c, slug, { target: 'default', variant: null }, channel))
+    return c.html(renderUnfurlPage(new URL(c.req.url).origin, slug, linkData.url, linkData.og))
+  }
+
+  // Pick the destination: platform override (app stores) first, then country override,
+  // then A/B split arm, then default
+  const cf = (c.req.raw as any).cf || {}
+  const override =
+    selectDeviceTarget(linkData.targets, parseUserAgent(c.req.header('User-Agent') || null)) ??
+    selectGeoTarget(linkData.geo, cf.country)
+  const served: ServedTarget = { target: override?.target ?? 'default', variant: null }
+  let destination = override?.url ?? linkData.url
+
+  if (!override && linkData.split) {
+    const variant = selectSplitVariant(linkData.split, await visitorBucket(c, slug))
+    if (variant) {
+      served.target = 'split'
+      served.variant = variant.label
+      destination = variant.url
+    }
+  }
+
+  // Only prefix links accept extra path segments
+  if (suffix) {
+    if (!linkData.prefix) {
+      return c.notFound()
+    }
+    // Security: joined URL must stay on the link's origin and under its path
+    const joined = joinPathSuffix(destination, suffix)
+    if (!joined) {
+      return c.notFound()
+    }
+    destination = joined
   }
 
+  // Generated QR codes add ?qr so scans can be told apart from typed/pasted clicks (never forwarded)
+  const { channel, params: requestParams } = extractScanChannel(new URL(c.req.url).searchParams)
+
+  // Query string passthrough and UTM defaults (per-link options)
+  const incoming = linkData.forwardQuery ? requestParams : undefined
+  destination = applyQueryParams(destination, incoming, linkData.utm)
+
   // Security: Validate URL before redirecting (prevents javascript:, data:, etc.)
-  if (!isValidRedirectUrl(linkData.url)) {
-    console.error(`Invalid redirect URL for slug ${slug}: ${linkData.url}`)
+  if (!isValidRedirectUrl(destination)) {
+    console.error(`Invalid redirect URL for slug ${slug}: ${destination}`)
     return c.notFound()
   }
 
   // Record the click asynchronously (don't block redirect)
-  c.executionCtx.waitUntil(recordClick(c, slug))
-  
-  // 302 temporary redirect - safer for user-generated content
-  return c.redirect(linkData.url, 302)
-})
+  c.executionCtx.waitUntil(recordClick(c, slug, served, channel))
+
+  // 302 temporary redirect by default - safer for user-generated content.
+  // Links can opt into 301/308 (permanent, cacheable) or 307 via redirect_type.
+  const status = resolveRedirectStatus(linkData.redirectType)
+  c.header('Cache-Control', redirectCacheControl(status, linkData.expiresAt))
+  return c.redirect(destination, status)
+}
+
+/** Which destination a redirect served (recorded with the click) */
+interface ServedTarget {
+  target: string // 'default', 'ios', 'geo:US', 'split', ...
+  variant: string | null // A/B split arm label
+}
 
-async function recordClick(c: any, slug: string): Promise<void> {
+/**
+ * Sticky split bucket for the current visitor.
+ * Uses the same daily HMAC visitor hash as analytics, so a visitor keeps their
+ * arm for the day. Without a usable HASH_SECRET, falls back to a random bucket.
+ */
+async function visitorBucket(c: Context<{ Bindings: Bindings }>, slug: string): Promise<number> {
+  const secretError = validateHashSecret(c.env.HASH_SECRET)
+  if (secretError) {
+    console.error(`Split assignment not sticky: ${secretError}`)
+    return Math.floor(Math.random() * 0x100000000)
+  }
+
+  const today = new Date().toISOString().split('T')[0] // YYYY-MM-DD, same salt as recordClick
+  const visitorHash = await hashIP(getClientIP(c), today, c.env.HASH_SECRET)
+  return splitBucket(visitorHash, slug)
+}
+
+/**
+ * HTML page for expired links (410 Gone).
+ * Rendered through c.html() so the security headers middleware applies.
+ */
+function renderGonePage(slug: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head><title>Link Expired</title></head>
+<body>
+<h1>Link Expired</h1>
+<p>The short link gitly.sh/${escapeHtml(slug)} has expired and no longer redirects.</p>
+</body>
+</html>`
+}
+
+async function recordClick(c: any, slug: string, served: ServedTarget, channel: 'qr' | 'link'): Promise<void> {
   try {
     const now = Math.floor(Date.now() / 1000)
     const today = new Date().toISOString().split('T')[0] // YYYY-MM-DD for hash salt
+    const cf = (c.req.raw as any).cf || {}
 
-    // Increment denormalized counter first (always count clicks, even if detailed analytics fails)
-    await c.env.DB.prepare(`
-      UPDATE links SET clicks = clicks + 1 WHERE slug = ?1
-    `).bind(slug).run()
+    // Bots (including link-preview crawlers) are recorded (is_bot = 1) but never counted in links.clicks
+    const bot = classifyBot({
+      userAgent: c.req.header('User-Agent') || null,
+      acceptLanguage: c.req.header('Accept-Language') || null,
+      botManagement: cf.botManagement,
+    })
+
+    // Increment denormalized counter first (count human clicks even if detailed analytics fails)
+    if (!bot.isBot) {
+      await c.env.DB.prepare(`
+        UPDATE links SET clicks = clicks + 1 WHERE slug = ?1
+      `).bind(slug).run()
+    }
 
     // Validate HASH_SECRET before attempting to hash IP
     // If missing or weak, log error and skip detailed analytics (click already counted above)
@@ -335,7 +489,7 @@ async function recordClick(c: any, slug: string): Promise<void> {
     const ua = rawUa ? rawUa.slice(0, MAX_UA_LENGTH) : null
     const rawReferrer = c.req.header('Referer')
     const referrer = rawReferrer ? rawReferrer.slice(0, MAX_REFERRER_LENGTH) : null
-    const cf = (c.req.raw as any).cf || {}
+    const normalized = normalizeReferrer(referrer)
 
     // Parse user agent
     const parsed = parseUserAgent(ua)
@@ -346,8 +500,9 @@ async function recordClick(c: any, slug: string): Promise<void> {
 
     // Insert click record
     await c.env.DB.prepare(`
-      INSERT INTO clicks (slug, clicked_at, referrer, country, city, device_type, browser, os, visitor_hash, user_agent)
-      VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10)
+      INSERT INTO clicks (slug, clicked_at, referrer, country, city, device_type, browser, os, visitor_hash, user_agent, target, variant, is_bot,
+        referrer_domain, source, utm_source, utm_medium, utm_campaign, channel)
+      VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12, ?13, ?14, ?15, ?16, ?17, ?18, ?19)
     `).bind(
       slug,
       now,
@@ -358,7 +513,16 @@ async function recordClick(c: any, slug: string): Promise<void> {
       parsed.browser,
       parsed.os,
       visitorHash,
-      ua
+      ua,
+      served.target,
+      served.variant,
+      bot.isBot ? 1 : 0,
+      normalized.domain,
+      normalized.source,
+      normalized.utm.source,
+      normalized.utm.medium,
+      normalized.utm.campaign,
+      channel
     ).run()
 
   } catch (error) {
@@ -376,4 +540,10 @@ app.get('/', (c) => {
   })
 })
 
-export default app
+export default {
+  fetch: app.fetch,
+  // Cron trigger (wrangler.toml [triggers]): probe destinations for link rot
+  scheduled(_controller: ScheduledController, env: Bindings, ctx: ExecutionContext) {
+    ctx.waitUntil(runLinkChecks(env.DB))
+  },
+} satisfies ExportedHandler<Bindings>
@@ -0,0 +1,107 @@
+/**
+ * Tests for QR label sheets
+ * Run with: npx tsx label-sheet.test.ts
+ */
+
+import { inflateSync } from 'node:zlib'
+import { LABEL_TEMPLATES, labelPositions, fitText, renderLabelSheets, Label } from './label-sheet'
+import { DEFAULT_QR_STYLE, QRMatrix } from './qr-style'
+
+const fitCases: Array<{ text: string; maxWidth: number; expected: string; description: string }> = [
+  { text: 'gitly.sh/gh', maxWidth: 100, expected: 'gitly.sh/gh', description: 'Text that fits is unchanged' },
+  { text: 'github.com/andrewmurphyio', maxWidth: 50, expected: 'github.co...', description: 'Long text is cut short' },
+  { text: 'github.com', maxWidth: 1, expected: '', description: 'No room at all' },
+]
+
+// A 21x21 matrix with a single dark module
+const qr: QRMatrix = { getModuleCount: () => 21, isDark: (row, col) => row === 10 && col === 10 }
+
+function labels(count: number): Label[] {
+  return Array.from({ length: count }, (_, i) => ({ slug: `asset-${i}`, url: `https://example.com/items/${i}/`, qr }))
+}
+
+function pageContent(pdfBytes: Uint8Array): string {
+  const pdf = new TextDecoder('latin1').decode(pdfBytes)
+  const streams: string[] = []
+  for (const match of pdf.matchAll(/<< \/Length (\d+) \/Filter \/FlateDecode >>\nstream\n/g)) {
+    const start = match.index! + match[0].length
+    streams.push(inflateSync(pdfBytes.subarray(start, start + Number(match[1]))).toString('latin1'))
+  }
+  return streams.join('\n')
+}
+
+async function runTests() {
+  console.log('Running label sheet tests...\n')
+
+  let passed = 0
+  let failed = 0
+
+  const check = (ok: boolean, description: string, detail: string) => {
+    if (ok) {
+      console.log(`✓ ${description}`)
+      passed++
+    } else {
+      console.log(`✗ ${description}`)
+      console.log(`  ${detail}`)
+      failed++
+    }
+  }
+
+  const close = (a: number, b: number) => Math.abs(a - b) < 0.01
+
+  // L7160: 3 x 7 labels, 7.21mm side and 15.15mm top margins
+  const l7160 = labelPositions(LABEL_TEMPLATES.L7160)
+  check(l7160.length === 21, 'One position per label', `Actual: ${l7160.length}`)
+  check(close(l7160[0].x, 7.21) && close(l7160[0].y, 15.15), 'Sheet margins follow from the pitch', `Actual: ${JSON.stringify(l7160[0])}`)
+  check(close(l7160[1].x, 7.21 + 66.04) && close(l7160[3].y, 15.15 + 38.1), 'Labels are in reading order', `Actual: ${JSON.stringify(l7160.slice(0, 4))}`)
+
+  // 5160: 3/16in side and 1/2in top margins
+  const avery5160 = labelPositions(LABEL_TEMPLATES['5160'])
+  check(close(avery5160[0].x, 4.7625) && close(avery5160[0].y, 12.7), 'US Letter margins', `Actual: ${JSON.stringify(avery5160[0])}`)
+
+  for (const [name, template] of Object.entries(LABEL_TEMPLATES)) {
+    const positions = labelPositions(template)
+    const last = positions[positions.length - 1]
+    const fits = positions[0].x > 0 && positions[0].y > 0 && last.x + template.label[0] < template.page[0] && last.y + template.label[1] < template.page[1]
+    check(fits, `${name} fits on the page`, `Last label at ${JSON.stringify(last)}`)
+  }
+
+  for (const { text, maxWidth, expected, description } of fitCases) {
+    const actual = fitText(text, maxWidth, 10)
+    check(actual === expected, description, `Expected: ${expected}, Actual: ${actual}`)
+  }
+
+  // 21 labels starting at the second position spill onto a second sheet
+  const pdfBytes = await renderLabelSheets(labels(21), LABEL_TEMPLATES.L7160, DEFAULT_QR_STYLE, 'Labels', 1)
+  const pdf = new TextDecoder('latin1').decode(pdfBytes)
+  check(pdf.includes('/Count 2'), 'Labels continue on a new sheet', pdf.match(/\/Count \d+/)?.[0] ?? '')
+  check(pdf.includes('/MediaBox [0 0 595.276 841.89]'), 'Pages are A4', pdf.match(/\/MediaBox[^\]]*\]/)?.[0] ?? '')
+
+  const content = pageContent(pdfBytes)
+  check(content.includes('(gitly.sh/asset-0) Tj') && content.includes('(example.com/items/0) Tj'), 'Labels show the short URL and destination', content.slice(0, 300))
+  const firstCode = content.match(/q [\d.]+ 0 0 [\d.]+ ([\d.]+) ([\d.]+) cm/)
+  const secondSlot = labelPositions(LABEL_TEMPLATES.L7160)[1]
+  check(
+    firstCode !== null && Number(firstCode[1]) > secondSlot.x * (72 / 25.4) && Number(firstCode[2]) > secondSlot.y * (72 / 25.4),
+    'start skips used labels',
+    `First code at ${firstCode?.slice(1).join(', ')}`
+  )
+
+  const protectedLabel = pageContent(await renderLabelSheets([{ slug: 'vip', url: null, qr }], LABEL_TEMPLATES.L7160, DEFAULT_QR_STYLE, 'Labels'))
+  check(protectedLabel.includes('(Password protected) Tj'), 'Password-protected links keep their destination hidden', protectedLabel.slice(-200))
+
+  // Squarish labels put the text under the code
+  const square = pageContent(await renderLabelSheets(labels(1), LABEL_TEMPLATES['5164'], DEFAULT_QR_STYLE, 'Labels'))
+  const codeTop = Number(square.match(/q [\d.]+ 0 0 [\d.]+ [\d.]+ ([\d.]+) cm/)?.[1])
+  const codeSize = Number(square.match(/q ([\d.]+) 0 0/)?.[1]) * 25
+  const baseline = Number(square.match(/1 0 0 -1 [\d.]+ ([\d.]+) Tm \S+ \S+ \S+ rg \(gitly/)?.[1])
+  check(baseline > codeTop + codeSize, 'Text goes under the code on squarish labels', `Code ${codeTop}+${codeSize}, text at ${baseline}`)
+
+  console.log(`\n${passed} passed, ${failed} failed`)
+
+  if (failed > 0) {
+    process.exit(1)
+  }
+}
+
+runTests()
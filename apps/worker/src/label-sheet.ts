@@ -0,0 +1,161 @@
+/**
+ * Printable QR label sheets
+ *
+ * Lays out one label per link on standard sticker sheets (Avery L-series A4
+ * and US Letter templates): a QR code with the short URL and destination next
+ * to it, or underneath on squarish labels. Codes are drawn from the same module
+ * shapes as /:slug/qr and written with the PDF writer in qr-vector.ts.
+ *
+ * Sizes are in millimetres until they are turned into points for the page.
+ *
+ * Kept free of Workers types so it can be unit tested with tsx.
+ */
+
+import { QRMatrix, QRStyle, qrShapes, num } from './qr-style'
+import { POINTS_PER_MM, helveticaWidth, stringLiteral, pathOps, rgbOperands, writePdf } from './qr-vector'
+
+export interface LabelTemplate {
+  description: string
+  page: [number, number] // Width, height (mm)
+  label: [number, number]
+  columns: number
+  rows: number
+  pitch: [number, number] // Distance between the corners of neighbouring labels
+}
+
+const INCH = 25.4
+const A4: [number, number] = [210, 297]
+const LETTER: [number, number] = [8.5 * INCH, 11 * INCH]
+
+// Avery layouts; sheets are centered on the page, so margins follow from the pitch
+export const LABEL_TEMPLATES: Record<string, LabelTemplate> = {
+  L7160: { description: 'A4, 21 labels (63.5 x 38.1mm)', page: A4, label: [63.5, 38.1], columns: 3, rows: 7, pitch: [66.04, 38.1] },
+  L7163: { description: 'A4, 14 labels (99.1 x 38.1mm)', page: A4, label: [99.1, 38.1], columns: 2, rows: 7, pitch: [101.6, 38.1] },
+  L7165: { description: 'A4, 8 labels (99.1 x 67.7mm)', page: A4, label: [99.1, 67.7], columns: 2, rows: 4, pitch: [101.6, 67.7] },
+  L7651: { description: 'A4, 65 labels (38.1 x 21.2mm)', page: A4, label: [38.1, 21.2], columns: 5, rows: 13, pitch: [40.64, 21.2] },
+  '5160': { description: 'Letter, 30 labels (2.625 x 1in)', page: LETTER, label: [2.625 * INCH, INCH], columns: 3, rows: 10, pitch: [2.75 * INCH, INCH] },
+  '5163': { description: 'Letter, 10 labels (4 x 2in)', page: LETTER, label: [4 * INCH, 2 * INCH], columns: 2, rows: 5, pitch: [4.1875 * INCH, 2 * INCH] },
+  '5164': { description: 'Letter, 6 labels (4 x 3.33in)', page: LETTER, label: [4 * INCH, (10 / 3) * INCH], columns: 2, rows: 3, pitch: [4.1875 * INCH, (10 / 3) * INCH] },
+}
+
+export const DEFAULT_LABEL_TEMPLATE = 'L7160'
+
+export interface Label {
+  slug: string
+  url: string | null // Destination; null for password-protected links, which keep it hidden
+  qr: QRMatrix
+}
+
+// Label content geometry
+const QR_MARGIN = 2 // Quiet zone in modules, as in /:slug/qr
+const MAX_PADDING = 3 // mm
+const SLUG_FONT_SIZE = 12 // pt, before shrinking to fit
+const MIN_FONT_SIZE = 4 // pt; below this, text is cut short instead
+const URL_FONT_RATIO = 0.75 // Largest destination line, relative to the slug line
+const LINE_GAP = 0.5 // Between the lines, relative to the slug font size
+const CAP_HEIGHT = 0.718 // Helvetica
+
+/**
+ * Top-left corner (mm) of each label on a sheet, in reading order.
+ */
+export function labelPositions(template: LabelTemplate): Array<{ x: number; y: number }> {
+  const { page, label, columns, rows, pitch } = template
+  const left = (page[0] - ((columns - 1) * pitch[0] + label[0])) / 2
+  const top = (page[1] - ((rows - 1) * pitch[1] + label[1])) / 2
+  const positions: Array<{ x: number; y: number }> = []
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      positions.push({ x: left + column * pitch[0], y: top + row * pitch[1] })
+    }
+  }
+  return positions
+}
+
+/**
+ * Text cut short with "..." so it fits maxWidth (pt) at fontSize.
+ */
+export function fitText(text: string, maxWidth: number, fontSize: number): string {
+  // Tolerance for font sizes that were computed to fit exactly
+  maxWidth += 1e-6
+  if (helveticaWidth(text) * fontSize <= maxWidth) return text
+  let end = text.length
+  while (end > 0 && helveticaWidth(text.slice(0, end) + '...') * fontSize > maxWidth) end--
+  return end > 0 ? text.slice(0, end) + '...' : ''
+}
+
+/** Destination as shown on a label: without the scheme or a trailing slash */
+function displayUrl(url: string | null): string {
+  if (url === null) return 'Password protected'
+  return url.replace(/^https?:\/\//, '').replace(/\/$/, '')
+}
+
+/**
+ * Content stream operators for one label, in points with y down, from its top-left corner.
+ */
+function labelOps(label: Label, x: number, y: number, template: LabelTemplate, style: QRStyle): string {
+  const width = template.label[0] * POINTS_PER_MM
+  const height = template.label[1] * POINTS_PER_MM
+  const padding = Math.min(MAX_PADDING, Math.min(...template.label) * 0.08) * POINTS_PER_MM
+  // Wide labels put the text beside the code; squarish ones put it underneath
+  const beside = width >= height * 1.4
+
+  const slugText = `gitly.sh/${label.slug}`
+  const urlText = displayUrl(label.url)
+  const textWidth = beside ? width - height - padding : width - padding * 2
+  const slugSize = Math.max(MIN_FONT_SIZE, Math.min(SLUG_FONT_SIZE, height * 0.16, textWidth / helveticaWidth(slugText)))
+  const urlSize = Math.max(MIN_FONT_SIZE, Math.min(slugSize * URL_FONT_RATIO, textWidth / helveticaWidth(urlText)))
+  const textHeight = (slugSize + urlSize) * CAP_HEIGHT + slugSize * LINE_GAP
+
+  const codeSize = beside ? height - padding * 2 : Math.min(width - padding * 2, height - padding * 3 - textHeight)
+  const codeX = beside ? x + padding : x + (width - codeSize) / 2
+  const codeY = y + padding
+
+  const moduleCount = label.qr.getModuleCount()
+  const scale = codeSize / (moduleCount + QR_MARGIN * 2)
+  const ops = [`q ${scale.toFixed(5)} 0 0 ${scale.toFixed(5)} ${num(codeX)} ${num(codeY)} cm`]
+  if (style.bg) {
+    ops.push(`${rgbOperands(style.bg)} rg 0 0 ${moduleCount + QR_MARGIN * 2} ${moduleCount + QR_MARGIN * 2} re f`)
+  }
+  ops.push(`${rgbOperands(style.fg)} rg`, pathOps(qrShapes(label.qr, style), QR_MARGIN, QR_MARGIN), 'f* Q')
+
+  // Both lines as one block, centered beside the code or below it
+  const textTop = beside ? y + (height - textHeight) / 2 : codeY + codeSize + padding
+  const lines = [
+    { text: fitText(slugText, textWidth, slugSize), size: slugSize, baseline: textTop + slugSize * CAP_HEIGHT },
+    { text: fitText(urlText, textWidth, urlSize), size: urlSize, baseline: textTop + textHeight },
+  ]
+  for (const line of lines) {
+    const lineX = beside ? x + height : x + (width - helveticaWidth(line.text) * line.size) / 2
+    ops.push(`BT /F1 ${num(line.size)} Tf 1 0 0 -1 ${num(lineX)} ${num(line.baseline)} Tm ${rgbOperands(style.fg)} rg ${stringLiteral(line.text)} Tj ET`)
+  }
+
+  return ops.join('\n')
+}
+
+/**
+ * Render labels onto as many sheets as they need, as a PDF.
+ *
+ * @param start - Labels already used on the first sheet (filled in reading order)
+ */
+export async function renderLabelSheets(labels: Label[], template: LabelTemplate, style: QRStyle, title: string, start = 0): Promise<Uint8Array> {
+  const positions = labelPositions(template)
+  const pageWidth = template.page[0] * POINTS_PER_MM
+  const pageHeight = template.page[1] * POINTS_PER_MM
+
+  const pages: string[][] = []
+  labels.forEach((label, i) => {
+    const slot = start + i
+    const sheet = Math.floor(slot / positions.length)
+    // Points, y down
+    pages[sheet] ??= [`1 0 0 -1 0 ${num(pageHeight)} cm`]
+    const { x, y } = positions[slot % positions.length]
+    pages[sheet].push(labelOps(label, x * POINTS_PER_MM, y * POINTS_PER_MM, template, style))
+  })
+
+  return writePdf(
+    pages.map((ops) => ops.join('\n')),
+    pageWidth,
+    pageHeight,
+    title
+  )
+}
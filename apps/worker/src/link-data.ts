@@ -0,0 +1,88 @@
+/**
+ * Link data stored in KV (written by scripts/sync-links.ts)
+ *
+ * Shared by the redirect, QR and dashboard handlers so every entry point
+ * parses and interprets KV values the same way.
+ */
+
+export interface UtmParams {
+  source?: string
+  medium?: string
+  campaign?: string
+}
+
+/** Per-platform destination overrides (chosen from the visitor's User-Agent) */
+export interface DeviceTargets {
+  ios?: string
+  android?: string
+  desktop?: string
+}
+
+/** One arm of a weighted A/B split */
+export interface SplitVariant {
+  label: string // Arm label recorded in clicks.variant ('a', 'b', ...)
+  url: string
+  weight: number // Relative weight (positive integer)
+}
+
+/** Redirect status codes a link can use (links.csv redirect_type) */
+export type RedirectStatus = 301 | 302 | 307 | 308
+
+/** Open Graph overrides served to link-preview crawlers (Slack, Twitter/X, ...) */
+export interface OpenGraph {
+  title?: string
+  description?: string
+  image?: string // Defaults to the link's QR code
+}
+
+export interface LinkData {
+  url: string
+  createdAt: number
+  createdBy: string
+  expiresAt?: number // Unix timestamp (seconds) after which the link returns 410 Gone
+  prefix?: boolean // Forward extra path segments: /:slug/a/b → url + /a/b
+  forwardQuery?: boolean // Merge the request's query string into the destination
+  utm?: UtmParams // Default utm_* params appended when not already present
+  targets?: DeviceTargets // Platform-specific URLs that replace `url` when matched
+  geo?: Record<string, string> // Country code (cf.country, e.g. "US") → URL override
+  split?: SplitVariant[] // Weighted A/B arms; replace `url` when no platform/country override matches
+  passwordHash?: string // PBKDF2 hash (scripts/hash-password.ts); visitors must enter the password first
+  redirectType?: RedirectStatus // Defaults to 302; 301/308 are only allowed for single-destination links
+  og?: OpenGraph // Overrides for the Open Graph page served to social crawlers (defaults otherwise)
+}
+
+/**
+ * Parse a raw KV value into LinkData.
+ * Falls back to the legacy format where the value is the raw URL string.
+ */
+export function parseLinkData(raw: string): LinkData {
+  try {
+    return JSON.parse(raw)
+  } catch {
+    // Legacy format: raw URL string
+    return { url: raw, createdAt: 0, createdBy: 'unknown' }
+  }
+}
+
+/** Shown on public pages in place of a password-protected link's destination */
+export const HIDDEN_DESTINATION = 'Hidden - this link is password protected'
+
+/**
+ * A link's destination as public pages (dashboard, stats, preview, label
+ * sheets, QR exports) may show it: null for password-protected links, which
+ * keep it hidden. Accepts KV LinkData or a D1 links row.
+ */
+export function publicUrl(link: { url: string; passwordHash?: string; password_protected?: number }): string | null {
+  return link.passwordHash || link.password_protected ? null : link.url
+}
+
+/**
+ * Check whether a link has passed its expiry time.
+ * Links without an expiry never expire.
+ *
+ * @param expiresAt - Unix timestamp (seconds), or null/undefined for no expiry
+ * @param now - Current Unix timestamp (seconds), defaults to the current time
+ */
+export function isExpired(expiresAt: number | null | undefined, now = Math.floor(Date.now() / 1000)): boolean {
+  return typeof expiresAt === 'number' && expiresAt <= now
+}
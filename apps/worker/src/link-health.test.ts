@@ -0,0 +1,176 @@
+/**
+ * Tests for the link-rot probe
+ * Run with: npx tsx link-health.test.ts
+ *
+ * fetch is mocked per test: routes map "METHOD url" to a status (and optional
+ * redirect), or to an Error to simulate network failures.
+ */
+
+import { probeUrl, healthState } from './link-health'
+
+const originalFetch = globalThis.fetch
+
+let fetchCalls: string[] = []
+
+type MockRoute = { status: number; location?: string } | Error
+
+function mockFetch(routes: Record<string, MockRoute>) {
+  fetchCalls = []
+
+  globalThis.fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const url = typeof input === 'string' ? input : input.toString()
+    const key = `${init?.method || 'GET'} ${url}`
+    fetchCalls.push(key)
+
+    const route = routes[key]
+    if (!route) {
+      throw new Error(`Unmocked request: ${key}`)
+    }
+    if (route instanceof Error) {
+      throw route
+    }
+
+    const headers = new Headers()
+    if (route.location) {
+      headers.set('location', route.location)
+    }
+    return new Response(null, { status: route.status, headers })
+  }
+}
+
+function restoreFetch() {
+  globalThis.fetch = originalFetch
+}
+
+const timeoutError = () => Object.assign(new Error('The operation was aborted due to timeout'), { name: 'TimeoutError' })
+
+const probeCases: Array<{
+  description: string
+  url: string
+  routes: Record<string, MockRoute>
+  expected: { status: number | null; ok: boolean; error: string | null }
+  expectedCalls?: string[]
+}> = [
+  {
+    description: 'HEAD 200 is healthy',
+    url: 'https://example.com/',
+    routes: { 'HEAD https://example.com/': { status: 200 } },
+    expected: { status: 200, ok: true, error: null },
+  },
+  {
+    description: 'Falls back to GET when HEAD is not allowed',
+    url: 'https://example.com/',
+    routes: { 'HEAD https://example.com/': { status: 405 }, 'GET https://example.com/': { status: 200 } },
+    expected: { status: 200, ok: true, error: null },
+    expectedCalls: ['HEAD https://example.com/', 'GET https://example.com/'],
+  },
+  {
+    description: 'Follows redirects to the final status',
+    url: 'https://example.com/old',
+    routes: { 'HEAD https://example.com/old': { status: 301, location: '/new' }, 'HEAD https://example.com/new': { status: 404 } },
+    expected: { status: 404, ok: false, error: null },
+  },
+  {
+    description: '410 Gone is dead',
+    url: 'https://example.com/',
+    routes: { 'HEAD https://example.com/': { status: 410 } },
+    expected: { status: 410, ok: false, error: null },
+  },
+  {
+    description: '5xx is dead',
+    url: 'https://example.com/',
+    routes: { 'HEAD https://example.com/': { status: 503 } },
+    expected: { status: 503, ok: false, error: null },
+  },
+  {
+    description: '403 (bot protection) counts as reachable',
+    url: 'https://example.com/',
+    routes: { 'HEAD https://example.com/': { status: 403 } },
+    expected: { status: 403, ok: true, error: null },
+  },
+  {
+    description: 'Network error',
+    url: 'https://example.com/',
+    routes: { 'HEAD https://example.com/': new TypeError('fetch failed') },
+    expected: { status: null, ok: false, error: 'network' },
+  },
+  {
+    description: 'Timeout',
+    url: 'https://example.com/',
+    routes: { 'HEAD https://example.com/': timeoutError() },
+    expected: { status: null, ok: false, error: 'timeout' },
+  },
+  {
+    description: 'Redirect to an internal address is blocked',
+    url: 'https://example.com/',
+    routes: { 'HEAD https://example.com/': { status: 302, location: 'http://169.254.169.254/latest' } },
+    expected: { status: null, ok: false, error: 'blocked' },
+  },
+  {
+    description: 'Redirect loop stops at the limit',
+    url: 'https://example.com/loop',
+    routes: { 'HEAD https://example.com/loop': { status: 302, location: 'https://example.com/loop' } },
+    expected: { status: null, ok: false, error: 'too-many-redirects' },
+  },
+]
+
+const stateCases: Array<{
+  row: { last_checked_at: number | null; check_failures: number }
+  expected: string
+  description: string
+}> = [
+  { row: { last_checked_at: null, check_failures: 0 }, expected: 'unknown', description: 'Never checked' },
+  { row: { last_checked_at: 1, check_failures: 0 }, expected: 'ok', description: 'Last check passed' },
+  { row: { last_checked_at: 1, check_failures: 1 }, expected: 'failing', description: 'One failure is not dead yet' },
+  { row: { last_checked_at: 1, check_failures: 2 }, expected: 'dead', description: 'Repeated failures are dead' },
+]
+
+async function runTests() {
+  console.log('Running link health tests...\n')
+
+  let passed = 0
+  let failed = 0
+
+  for (const { description, url, routes, expected, expectedCalls } of probeCases) {
+    mockFetch(routes)
+    try {
+      const result = await probeUrl(url)
+      const actual = { status: result.status, ok: result.ok, error: result.error }
+      const callsMatch = !expectedCalls || JSON.stringify(fetchCalls) === JSON.stringify(expectedCalls)
+
+      if (JSON.stringify(actual) === JSON.stringify(expected) && callsMatch) {
+        console.log(`✓ ${description}`)
+        passed++
+      } else {
+        console.log(`✗ ${description}`)
+        console.log(`  Expected: ${JSON.stringify(expected)}${expectedCalls ? ` via ${expectedCalls.join(', ')}` : ''}`)
+        console.log(`  Actual: ${JSON.stringify(actual)} via ${fetchCalls.join(', ')}`)
+        failed++
+      }
+    } finally {
+      restoreFetch()
+    }
+  }
+
+  for (const { row, expected, description } of stateCases) {
+    const actual = healthState(row)
+
+    if (actual === expected) {
+      console.log(`✓ ${description}`)
+      passed++
+    } else {
+      console.log(`✗ ${description}`)
+      console.log(`  Expected: ${expected}`)
+      console.log(`  Actual: ${actual}`)
+      failed++
+    }
+  }
+
+  console.log(`\n${passed} passed, ${failed} failed`)
+
+  if (failed > 0) {
+    process.exit(1)
+  }
+}
+
+runTests()
@@ -0,0 +1,202 @@
+import { Context } from 'hono'
+import { safeFetch } from './url-validator'
+
+/**
+ * Link-rot checker
+ *
+ * A cron trigger (wrangler.toml) calls runLinkChecks, which probes the default
+ * destination of the least recently checked live links through safeFetch (so
+ * every redirect hop gets the SSRF checks) and records status and latency in
+ * link_checks. links.check_failures counts consecutive failures; a link is
+ * flagged dead on the dashboard after DEAD_AFTER_FAILURES of them, so a single
+ * blip doesn't mark it broken.
+ *
+ * GET /api/links/:slug/health returns the latest state and recent history.
+ */
+
+export interface ProbeResult {
+  status: number | null // Final HTTP status, null if the request failed
+  latencyMs: number
+  ok: boolean
+  error: string | null // 'timeout', 'network', 'blocked', 'too-many-redirects'
+}
+
+interface DueLink {
+  slug: string
+  url: string
+}
+
+interface LinkHealthRow {
+  last_checked_at: number | null
+  check_failures: number
+}
+
+interface CheckRow {
+  checked_at: number
+  status: number | null
+  latency_ms: number
+  ok: number
+  error: string | null
+}
+
+// Per-probe limits. Each redirect hop is a subrequest, so a batch costs at most
+// CHECK_BATCH_SIZE * (PROBE_MAX_REDIRECTS + 1) * 2 (HEAD then GET) subrequests.
+const PROBE_TIMEOUT_MS = 10_000
+const PROBE_MAX_REDIRECTS = 3
+const PROBE_USER_AGENT = 'gitly.sh-link-checker/1.0 (+https://github.com/andrewmurphyio/gitly.sh)'
+
+// Links probed per cron run, and how often each link is rechecked
+const CHECK_BATCH_SIZE = 5
+const CHECK_INTERVAL_SECONDS = 24 * 60 * 60
+
+// Consecutive failures before a link is shown as dead
+export const DEAD_AFTER_FAILURES = 2
+
+// Check history kept in D1, and returned by the health endpoint
+const CHECK_RETENTION_SECONDS = 90 * 24 * 60 * 60
+const HISTORY_LIMIT = 30
+
+/**
+ * Whether an HTTP status means the destination is gone or broken.
+ * 401/403/429 count as reachable: they're usually logins or bot protection,
+ * which real visitors get past.
+ */
+export function isDeadStatus(status: number): boolean {
+  return status === 404 || status === 410 || status >= 500
+}
+
+function classifyProbeError(error: unknown): string {
+  const name = error instanceof Error ? error.name : ''
+  const message = error instanceof Error ? error.message : String(error)
+  if (name === 'TimeoutError' || name === 'AbortError') return 'timeout'
+  if (message.startsWith('URL validation failed')) return 'blocked'
+  if (message.startsWith('Maximum redirects')) return 'too-many-redirects'
+  return 'network'
+}
+
+/**
+ * Probe a destination URL: HEAD first, GET when the server doesn't support HEAD.
+ */
+export async function probeUrl(url: string): Promise<ProbeResult> {
+  const started = Date.now()
+  try {
+    const request = (method: string) => safeFetch(url, {
+      method,
+      headers: { 'User-Agent': PROBE_USER_AGENT },
+      signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+      maxRedirects: PROBE_MAX_REDIRECTS,
+    })
+
+    let response = await request('HEAD')
+    if (response.status === 405 || response.status === 501) {
+      response = await request('GET')
+    }
+    // Only the status matters; don't download the page
+    await response.body?.cancel()
+
+    return {
+      status: response.status,
+      latencyMs: Date.now() - started,
+      ok: !isDeadStatus(response.status),
+      error: null,
+    }
+  } catch (error) {
+    return { status: null, latencyMs: Date.now() - started, ok: false, error: classifyProbeError(error) }
+  }
+}
+
+/**
+ * Check the links that are due (called from the scheduled handler).
+ * Expired and deleted links are skipped.
+ */
+export async function runLinkChecks(db: D1Database, now = Math.floor(Date.now() / 1000)): Promise<void> {
+  try {
+    const due = await db.prepare(`
+      SELECT slug, url
+      FROM links
+      WHERE deleted_at IS NULL
+        AND (expires_at IS NULL OR expires_at > ?1)
+        AND (last_checked_at IS NULL OR last_checked_at < ?2)
+      ORDER BY last_checked_at IS NOT NULL, last_checked_at
+      LIMIT ?3
+    `).bind(now, now - CHECK_INTERVAL_SECONDS, CHECK_BATCH_SIZE).all<DueLink>()
+
+    const statements: D1PreparedStatement[] = []
+    let failing = 0
+
+    // One at a time: keeps concurrent subrequests (and load on any one destination) low
+    for (const link of due.results || []) {
+      const result = await probeUrl(link.url)
+      if (!result.ok) failing++
+
+      statements.push(
+        db.prepare(`
+          INSERT INTO link_checks (slug, checked_at, status, latency_ms, ok, error)
+          VALUES (?1, ?2, ?3, ?4, ?5, ?6)
+        `).bind(link.slug, now, result.status, result.latencyMs, result.ok ? 1 : 0, result.error),
+        db.prepare(`
+          UPDATE links
+          SET last_checked_at = ?2, check_failures = CASE WHEN ?3 THEN 0 ELSE check_failures + 1 END
+          WHERE slug = ?1
+        `).bind(link.slug, now, result.ok ? 1 : 0)
+      )
+    }
+
+    statements.push(
+      db.prepare(`DELETE FROM link_checks WHERE checked_at < ?1`).bind(now - CHECK_RETENTION_SECONDS)
+    )
+    await db.batch(statements)
+
+    console.log(`[link-health] Checked ${due.results?.length || 0} links, ${failing} failing`)
+  } catch (error) {
+    console.error('[link-health] Link check run failed:', error)
+  }
+}
+
+/**
+ * Overall state of a link from its latest checks.
+ */
+export function healthState(row: LinkHealthRow): 'unknown' | 'ok' | 'failing' | 'dead' {
+  if (row.last_checked_at === null) return 'unknown'
+  if (row.check_failures >= DEAD_AFTER_FAILURES) return 'dead'
+  return row.check_failures > 0 ? 'failing' : 'ok'
+}
+
+/**
+ * GET /api/links/:slug/health - latest state and recent check history.
+ * Never includes the destination URL (password-protected links keep it private).
+ */
+export async function handleLinkHealth(c: Context) {
+  const slug = c.req.param('slug')
+
+  try {
+    const link = (await c.env.DB.prepare(`
+      SELECT last_checked_at, check_failures
+      FROM links
+      WHERE slug = ?1 AND deleted_at IS NULL
+    `).bind(slug).first()) as LinkHealthRow | null
+
+    if (!link) {
+      return c.json({ error: 'Not found' }, 404)
+    }
+
+    const history = await c.env.DB.prepare(`
+      SELECT checked_at, status, latency_ms, ok, error
+      FROM link_checks
+      WHERE slug = ?1
+      ORDER BY checked_at DESC
+      LIMIT ${HISTORY_LIMIT}
+    `).bind(slug).all()
+
+    return c.json({
+      slug,
+      state: healthState(link),
+      last_checked_at: link.last_checked_at,
+      consecutive_failures: link.check_failures,
+      checks: ((history.results || []) as CheckRow[]).map((check) => ({ ...check, ok: check.ok === 1 })),
+    })
+  } catch (error) {
+    console.error('Link health query failed:', error)
+    return c.json({ error: 'Database error' }, 500)
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Unit tests for the per-link analytics chart helpers
+ * Run with: npx tsx link-stats.test.ts
+ */
+
+import { dailySeries, renderClickChart } from './link-stats'
+
+const DAY = 86400
+const SINCE = Date.UTC(2026, 1, 27) / 1000 // 2026-02-27, spans the end of February
+
+let passed = 0
+let failed = 0
+
+function check(description: string, actual: unknown, expected: unknown) {
+  if (JSON.stringify(actual) === JSON.stringify(expected)) {
+    console.log(`✓ ${description}`)
+    passed++
+  } else {
+    console.log(`✗ ${description}`)
+    console.log(`  Expected: ${JSON.stringify(expected)}`)
+    console.log(`  Actual: ${JSON.stringify(actual)}`)
+    failed++
+  }
+}
+
+// dailySeries
+const series = dailySeries([{ day: '2026-03-01', clicks: 5 }, { day: '2026-02-27', clicks: 2 }], SINCE, 4)
+check('One point per day', series.length, 4)
+check('Days cross month boundaries', series.map((point) => point.day), ['2026-02-27', '2026-02-28', '2026-03-01', '2026-03-02'])
+check('Missing days are zero-filled', series.map((point) => point.clicks), [2, 0, 5, 0])
+check('Rows outside the range are ignored', dailySeries([{ day: '2026-01-01', clicks: 9 }], SINCE, 1), [{ day: '2026-02-27', clicks: 0 }])
+check('Series starts at since', dailySeries([], SINCE + DAY, 1)[0].day, '2026-02-28')
+
+// renderClickChart
+const chart = renderClickChart(series)
+check('One bar per day', chart.match(/<rect /g)?.length, 4)
+check('Tallest bar is labelled with the maximum', chart.includes('text-anchor="end">5</text>'), true)
+check('Bars have hover titles', chart.includes('<title>2026-03-01: 5 clicks</title>'), true)
+check('Singular click title', renderClickChart([{ day: '2026-03-01', clicks: 1 }]).includes('1 click</title>'), true)
+check('Empty range renders without NaN', renderClickChart(dailySeries([], SINCE, 7)).includes('NaN'), false)
+
+console.log(`\n${passed} passed, ${failed} failed`)
+
+if (failed > 0) {
+  process.exit(1)
+}
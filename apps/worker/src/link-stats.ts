@@ -0,0 +1,344 @@
+import { Context } from 'hono'
+import { styles, formatDate } from './dashboard'
+import { escapeHtml } from './html'
+import { publicUrl, HIDDEN_DESTINATION } from './link-data'
+
+/**
+ * Per-link analytics page
+ *
+ * gitly.sh/@<username>/<slug> shows clicks per day as a server-rendered SVG bar
+ * chart plus the top sources, referrers, countries, devices, browsers and operating
+ * systems for the last 7, 30 or 90 days (?range=7|30|90), and how many of the
+ * clicks were QR scans. Everything is plain HTML and SVG, so it works under the
+ * dashboard CSP without any scripts.
+ *
+ * Bot clicks are excluded, matching links.clicks and the analytics API.
+ * Pages are public, so they're rate limited (see index.ts) and cached for
+ * PAGE_CACHE_TTL.
+ */
+
+interface LinkRow {
+  slug: string
+  url: string
+  created_at: number
+  clicks: number
+  password_protected: number
+}
+
+interface DayRow {
+  day: string
+  clicks: number
+}
+
+interface TotalsRow {
+  clicks: number
+  unique_visitors: number
+  qr_scans: number
+}
+
+interface TopRow {
+  value: string | null
+  clicks: number
+}
+
+export interface DayPoint {
+  day: string // YYYY-MM-DD (UTC)
+  clicks: number
+}
+
+// Selectable ranges in days
+const RANGES = [7, 30, 90]
+const DEFAULT_RANGE = 30
+
+// Pages are cached at the edge this long (seconds), so popular links don't rerun every query per view
+const PAGE_CACHE_TTL = 60
+
+// Rows shown per breakdown table
+const TOP_LIMIT = 5
+
+// Breakdown tables: heading → SQL expression over clicks c
+const BREAKDOWNS: Array<[string, string]> = [
+  ['Sources', 'c.source'],
+  ['Referrers', 'c.referrer_domain'],
+  ['Countries', 'c.country'],
+  ['Devices', 'c.device_type'],
+  ['Browsers', 'c.browser'],
+  ['Operating systems', 'c.os'],
+]
+
+// Chart geometry (SVG user units; the SVG scales to the container width)
+const CHART_WIDTH = 760
+const CHART_HEIGHT = 200
+const CHART_PADDING = { top: 12, right: 8, bottom: 24, left: 40 }
+
+const statsStyles = `
+  .stats a {
+    color: #60a5fa;
+    text-decoration: none;
+  }
+  header .target {
+    margin-top: 0.5rem;
+  }
+  .ranges {
+    display: flex;
+    gap: 0.375rem;
+    margin-top: 1rem;
+  }
+  .ranges a {
+    padding: 0.25rem 0.625rem;
+    font-size: 0.8rem;
+    background: #1f1f1f;
+    border: 1px solid #333;
+    border-radius: 4px;
+    color: #aaa;
+    text-decoration: none;
+  }
+  .ranges a:hover {
+    border-color: #555;
+    color: #fff;
+  }
+  .ranges a.active {
+    background: #1e3a5f;
+    border-color: #1e3a5f;
+    color: #60a5fa;
+  }
+  .panel {
+    background: #141414;
+    border: 1px solid #333;
+    border-radius: 12px;
+    padding: 1.25rem;
+  }
+  .panel h2 {
+    font-size: 0.75rem;
+    font-weight: 600;
+    text-transform: uppercase;
+    letter-spacing: 0.05em;
+    color: #666;
+    margin-bottom: 0.75rem;
+  }
+  .chart svg {
+    display: block;
+    width: 100%;
+    height: auto;
+  }
+  .chart .bar { fill: #60a5fa; }
+  .chart .bar:hover { fill: #93c5fd; }
+  .chart .axis { stroke: #333; }
+  .chart text {
+    fill: #666;
+    font-size: 11px;
+    font-family: inherit;
+  }
+  .breakdowns {
+    display: grid;
+    grid-template-columns: repeat(auto-fill, minmax(240px, 1fr));
+    gap: 1.5rem;
+  }
+  .top-list {
+    list-style: none;
+    display: flex;
+    flex-direction: column;
+    gap: 0.375rem;
+    font-size: 0.85rem;
+  }
+  .top-list li {
+    position: relative;
+    display: flex;
+    justify-content: space-between;
+    gap: 0.5rem;
+    padding: 0.25rem 0.5rem;
+    border-radius: 4px;
+    overflow: hidden;
+  }
+  .top-list .fill {
+    position: absolute;
+    inset: 0 auto 0 0;
+    background: #1e3a5f;
+    opacity: 0.5;
+  }
+  .top-list .name,
+  .top-list .count {
+    position: relative;
+  }
+  .top-list .name {
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  }
+  .top-list .count { color: #888; }
+  .top-list .none { color: #666; }
+`
+
+/**
+ * One point per UTC day from `since` for `days` days, zero-filling days without clicks.
+ *
+ * @param rows - Per-day counts from D1 (only days with clicks)
+ * @param since - Unix timestamp of the first day (midnight UTC)
+ * @param days - Number of days to return
+ */
+export function dailySeries(rows: DayRow[], since: number, days: number): DayPoint[] {
+  const counts = new Map(rows.map((row) => [row.day, row.clicks]))
+  const points: DayPoint[] = []
+  for (let i = 0; i < days; i++) {
+    const day = new Date((since + i * 86400) * 1000).toISOString().slice(0, 10)
+    points.push({ day, clicks: counts.get(day) || 0 })
+  }
+  return points
+}
+
+/**
+ * Render clicks per day as an inline SVG bar chart.
+ * Each bar has a <title> so hovering shows the exact count without JavaScript.
+ */
+export function renderClickChart(points: DayPoint[]): string {
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom
+  const max = Math.max(1, ...points.map((point) => point.clicks))
+  const slot = plotWidth / Math.max(1, points.length)
+  const barWidth = Math.max(1, slot * 0.8)
+  const baseline = CHART_PADDING.top + plotHeight
+
+  const bars = points.map((point, i) => {
+    const height = (point.clicks / max) * plotHeight
+    const x = CHART_PADDING.left + i * slot + (slot - barWidth) / 2
+    return `<rect class="bar" x="${x.toFixed(1)}" y="${(baseline - height).toFixed(1)}" width="${barWidth.toFixed(1)}" height="${height.toFixed(1)}"><title>${point.day}: ${point.clicks} click${point.clicks !== 1 ? 's' : ''}</title></rect>`
+  }).join('')
+
+  const first = points[0]?.day ?? ''
+  const last = points[points.length - 1]?.day ?? ''
+  const labelY = CHART_HEIGHT - 6
+
+  return `<svg viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" role="img" aria-label="Clicks per day from ${first} to ${last}" xmlns="http://www.w3.org/2000/svg">
+  <line class="axis" x1="${CHART_PADDING.left}" y1="${baseline}" x2="${CHART_WIDTH - CHART_PADDING.right}" y2="${baseline}"/>
+  <text x="${CHART_PADDING.left - 6}" y="${CHART_PADDING.top + 4}" text-anchor="end">${max}</text>
+  <text x="${CHART_PADDING.left - 6}" y="${baseline}" text-anchor="end">0</text>
+  ${bars}
+  <text x="${CHART_PADDING.left}" y="${labelY}">${first}</text>
+  <text x="${CHART_WIDTH - CHART_PADDING.right}" y="${labelY}" text-anchor="end">${last}</text>
+</svg>`
+}
+
+function renderTopList(title: string, rows: TopRow[], total: number): string {
+  const items = rows.length > 0
+    ? rows.map((row) => {
+      const name = row.value || (title === 'Referrers' ? 'Direct / none' : 'Unknown')
+      const percent = total > 0 ? Math.round((row.clicks / total) * 100) : 0
+      return `<li><span class="fill" style="width: ${percent}%"></span><span class="name" title="${escapeHtml(name)}">${escapeHtml(name)}</span><span class="count">${row.clicks}</span></li>`
+    }).join('')
+    : `<li class="none">No clicks in this range</li>`
+
+  return `<div><h2>${escapeHtml(title)}</h2><ul class="top-list">${items}</ul></div>`
+}
+
+export async function handleLinkStats(c: Context, username: string, slug: string): Promise<Response> {
+  if (!/^[a-zA-Z0-9_-]+$/.test(username)) {
+    return c.notFound()
+  }
+
+  const requestedRange = parseInt(c.req.query('range') || '')
+  const range = RANGES.includes(requestedRange) ? requestedRange : DEFAULT_RANGE
+
+  // Start at midnight UTC so the first bar is a whole day
+  const today = Math.floor(Date.now() / 1000 / 86400) * 86400
+  const since = today - (range - 1) * 86400
+
+  const cache = caches.default
+  const cacheRequest = new Request(`https://gitly.sh/@${username}/${encodeURIComponent(slug)}?range=${range}`)
+  const cachedResponse = await cache.match(cacheRequest)
+  if (cachedResponse) {
+    return cachedResponse
+  }
+
+  try {
+    const link = (await c.env.DB.prepare(`
+      SELECT slug, url, created_at, clicks, password_protected
+      FROM links
+      WHERE slug = ?1 AND created_by = ?2 AND deleted_at IS NULL
+    `).bind(slug, username).first()) as LinkRow | null
+
+    if (!link) {
+      return c.notFound()
+    }
+
+    const where = `c.slug = ?1 AND c.clicked_at >= ?2 AND c.is_bot = 0`
+    const statements = [
+      c.env.DB.prepare(`
+        SELECT COUNT(*) AS clicks, COUNT(DISTINCT c.visitor_hash) AS unique_visitors,
+          COALESCE(SUM(c.channel = 'qr'), 0) AS qr_scans
+        FROM clicks c
+        WHERE ${where}
+      `).bind(slug, since),
+      c.env.DB.prepare(`
+        SELECT strftime('%Y-%m-%d', c.clicked_at, 'unixepoch') AS day, COUNT(*) AS clicks
+        FROM clicks c
+        WHERE ${where}
+        GROUP BY day
+      `).bind(slug, since),
+      ...BREAKDOWNS.map(([, expression]) => c.env.DB.prepare(`
+        SELECT ${expression} AS value, COUNT(*) AS clicks
+        FROM clicks c
+        WHERE ${where}
+        GROUP BY value
+        ORDER BY clicks DESC
+        LIMIT ${TOP_LIMIT}
+      `).bind(slug, since)),
+    ]
+
+    const [totalsResult, daysResult, ...breakdownResults] = await c.env.DB.batch(statements)
+    const totals = (totalsResult.results?.[0] || { clicks: 0, unique_visitors: 0, qr_scans: 0 }) as TotalsRow
+    const points = dailySeries((daysResult.results || []) as DayRow[], since, range)
+
+    const safeSlug = escapeHtml(slug)
+    const safeUsername = escapeHtml(username)
+
+    const rangesHtml = RANGES.map((days) =>
+      `<a href="/@${safeUsername}/${safeSlug}?range=${days}"${days === range ? ' class="active"' : ''}>${days} days</a>`
+    ).join('')
+
+    const breakdownsHtml = BREAKDOWNS.map(([title], i) =>
+      renderTopList(title, (breakdownResults[i]?.results || []) as TopRow[], totals.clicks)
+    ).join('')
+
+    const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="noindex">
+  <title>gitly.sh/${safeSlug} analytics - @${safeUsername}</title>
+  <style>${styles}${statsStyles}</style>
+</head>
+<body>
+  <div class="container">
+    <header>
+      <h1>gitly.sh/${safeSlug}<span> analytics</span></h1>
+      <div class="stats">
+        By <a href="/@${safeUsername}">@${safeUsername}</a> · Created ${formatDate(link.created_at)} · ${link.clicks || 0} total click${link.clicks !== 1 ? 's' : ''}
+      </div>
+      <div class="target">${escapeHtml(publicUrl(link) ?? HIDDEN_DESTINATION)}</div>
+      <nav class="ranges">${rangesHtml}</nav>
+    </header>
+    <div class="links">
+      <section class="panel chart">
+        <h2>Last ${range} days · ${totals.clicks} click${totals.clicks !== 1 ? 's' : ''} · ${totals.unique_visitors} unique visitor${totals.unique_visitors !== 1 ? 's' : ''} · ${totals.qr_scans} from QR scans</h2>
+        ${renderClickChart(points)}
+      </section>
+      <section class="panel breakdowns">
+        ${breakdownsHtml}
+      </section>
+    </div>
+    <footer>
+      <a href="https://github.com/andrewmurphyio/gitly.sh">gitly.sh</a> - URL shortener for developers
+    </footer>
+  </div>
+</body>
+</html>`
+
+    const response = c.html(html, 200, { 'Cache-Control': `public, max-age=${PAGE_CACHE_TTL}` })
+    c.executionCtx.waitUntil(cache.put(cacheRequest, response.clone()))
+    return response
+  } catch (error) {
+    console.error('Link stats query failed:', error)
+    return c.text('Internal Server Error', 500)
+  }
+}
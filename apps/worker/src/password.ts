@@ -0,0 +1,145 @@
+import { Context } from 'hono'
+import { getCookie, setCookie } from 'hono/cookie'
+import { constantTimeCompare, hmacSign, verifyPassword } from './crypto'
+import { escapeHtml } from './html'
+import { parseLinkData, isExpired } from './link-data'
+
+/**
+ * Password-protected links
+ *
+ * A link with a passwordHash shows a password form instead of redirecting.
+ * A correct password sets a short-lived signed cookie scoped to /<slug>, and the
+ * visitor is sent back to the link, which now redirects as usual.
+ *
+ * Cookie value: <expiry>.<signature>, where the signature is an HMAC (COOKIE_SECRET)
+ * over the slug, expiry and password hash. Changing the password in links.csv
+ * therefore invalidates every cookie issued for the old one.
+ */
+
+const COOKIE_NAME = 'gitly_access'
+
+// How long a correct password unlocks the link (1 hour)
+const ACCESS_TTL_SECONDS = 60 * 60
+
+// Passwords are hashed with PBKDF2 on every attempt; cap input size
+const MAX_PASSWORD_LENGTH = 256
+
+// Same minimum as HASH_SECRET (HMAC-SHA256 key)
+const MIN_COOKIE_SECRET_LENGTH = 32
+
+function cookieSecretError(secret: string | undefined): string | null {
+  if (!secret) {
+    return 'COOKIE_SECRET is not configured'
+  }
+  if (secret.length < MIN_COOKIE_SECRET_LENGTH) {
+    return `COOKIE_SECRET too weak: ${secret.length} chars (minimum ${MIN_COOKIE_SECRET_LENGTH})`
+  }
+  return null
+}
+
+function accessPayload(slug: string, expiresAt: number, passwordHash: string): string {
+  return `${slug}:${expiresAt}:${passwordHash}`
+}
+
+/**
+ * Check whether the visitor holds a valid access cookie for a protected link.
+ */
+export async function hasLinkAccess(c: Context, slug: string, passwordHash: string): Promise<boolean> {
+  const secret = c.env.COOKIE_SECRET
+  if (cookieSecretError(secret)) return false
+
+  const cookie = getCookie(c, COOKIE_NAME)
+  if (!cookie) return false
+
+  const [expiry, signature] = cookie.split('.')
+  const expiresAt = Number(expiry)
+  if (!signature || !Number.isInteger(expiresAt) || expiresAt <= Math.floor(Date.now() / 1000)) {
+    return false
+  }
+
+  const expected = await hmacSign(accessPayload(slug, expiresAt, passwordHash), secret)
+  return constantTimeCompare(signature, expected)
+}
+
+/**
+ * Password form for a protected link.
+ * Posts back to the same URL (path and query string), handled by handlePasswordSubmit.
+ */
+export function renderPasswordPage(slug: string, error?: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="noindex">
+  <title>Password Required</title>
+  <style>
+    * { box-sizing: border-box; margin: 0; padding: 0; }
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; background: #0a0a0a; color: #fafafa; min-height: 100vh; padding: 4rem 1rem; }
+    main { max-width: 360px; margin: 0 auto; background: #141414; border: 1px solid #333; border-radius: 12px; padding: 1.5rem; }
+    h1 { font-size: 1.25rem; font-weight: 600; margin-bottom: 0.5rem; }
+    p { color: #888; font-size: 0.9rem; margin-bottom: 1rem; }
+    input { width: 100%; padding: 0.6rem; margin-bottom: 1rem; background: #0a0a0a; border: 1px solid #333; border-radius: 6px; color: #fafafa; font-size: 1rem; }
+    button { width: 100%; padding: 0.6rem; background: #1e3a2e; border: 1px solid #2d5a3f; border-radius: 6px; color: #4ade80; font-weight: 600; cursor: pointer; }
+    .error { color: #f87171; }
+  </style>
+</head>
+<body>
+<main>
+  <h1>Password Required</h1>
+  <p>gitly.sh/${escapeHtml(slug)} is password protected.</p>
+  ${error ? `<p class="error">${escapeHtml(error)}</p>` : ''}
+  <form method="POST">
+    <input type="password" name="password" aria-label="Password" autocomplete="current-password" maxlength="${MAX_PASSWORD_LENGTH}" required autofocus>
+    <button type="submit">Continue</button>
+  </form>
+</main>
+</body>
+</html>`
+}
+
+/**
+ * POST /:slug (and /:slug/*) - verify a password and issue the access cookie.
+ * On success, 303 back to the same URL so the GET handler performs the redirect
+ * (and records the click) exactly as for an unprotected link.
+ */
+export async function handlePasswordSubmit(c: Context) {
+  const slug = c.req.param('slug')
+
+  const linkDataRaw = await c.env.LINKS.get(slug)
+  if (!linkDataRaw) {
+    return c.notFound()
+  }
+
+  const linkData = parseLinkData(linkDataRaw)
+  if (!linkData.passwordHash || isExpired(linkData.expiresAt)) {
+    return c.notFound()
+  }
+
+  const secretError = cookieSecretError(c.env.COOKIE_SECRET)
+  if (secretError) {
+    console.error(`Password-protected link ${slug} unavailable: ${secretError}`)
+    return c.html(renderPasswordPage(slug, 'Password-protected links are temporarily unavailable.'), 503)
+  }
+
+  const body = await c.req.parseBody()
+  const password = typeof body.password === 'string' ? body.password : ''
+
+  if (!password || password.length > MAX_PASSWORD_LENGTH || !(await verifyPassword(password, linkData.passwordHash))) {
+    return c.html(renderPasswordPage(slug, 'Incorrect password.'), 401)
+  }
+
+  const expiresAt = Math.floor(Date.now() / 1000) + ACCESS_TTL_SECONDS
+  const signature = await hmacSign(accessPayload(slug, expiresAt, linkData.passwordHash), c.env.COOKIE_SECRET)
+
+  setCookie(c, COOKIE_NAME, `${expiresAt}.${signature}`, {
+    path: `/${slug}`,
+    maxAge: ACCESS_TTL_SECONDS,
+    httpOnly: true,
+    secure: true,
+    sameSite: 'Lax',
+  })
+
+  const url = new URL(c.req.url)
+  return c.redirect(url.pathname + url.search, 303)
+}
@@ -0,0 +1,178 @@
+import { Context } from 'hono'
+import { styles, formatDate } from './dashboard'
+import { escapeHtml } from './html'
+import { LinkData, parseLinkData, isExpired, publicUrl, HIDDEN_DESTINATION } from './link-data'
+
+/**
+ * Link preview page handler
+ *
+ * gitly.sh/<slug>+ shows where a short link goes (destination, owner, creation
+ * date, clicks, QR code) instead of redirecting, so visitors can inspect it first.
+ * Links that vary by device, country or A/B split list every possible destination.
+ * Password-protected links never reveal their destination here.
+ *
+ * Never records a click.
+ */
+
+interface LinkStats {
+  created_at: number
+  clicks: number
+}
+
+// Extra styles on top of the dashboard's
+const previewStyles = `
+  .link-card .qr-code {
+    width: 160px;
+    height: 160px;
+  }
+  .label {
+    font-size: 0.75rem;
+    text-transform: uppercase;
+    letter-spacing: 0.05em;
+    color: #666;
+  }
+  .target a {
+    color: #fafafa;
+  }
+  .meta a {
+    color: #60a5fa;
+    text-decoration: none;
+  }
+  .alternates {
+    list-style: none;
+    display: flex;
+    flex-direction: column;
+    gap: 0.25rem;
+  }
+  .continue {
+    align-self: flex-start;
+    margin-top: 0.5rem;
+    padding: 0.5rem 1rem;
+    background: #1e3a2e;
+    border: 1px solid #2d5a3f;
+    border-radius: 6px;
+    color: #4ade80;
+    font-weight: 600;
+    text-decoration: none;
+  }
+  .continue:hover {
+    border-color: #4ade80;
+  }
+  @media (max-width: 480px) {
+    .link-card .qr-code {
+      width: 160px;
+      height: 160px;
+    }
+    .continue {
+      align-self: center;
+    }
+  }
+`
+
+/**
+ * Every destination other than the default URL, labelled by what selects it.
+ */
+function alternateDestinations(linkData: LinkData): Array<{ label: string; url: string }> {
+  const alternates: Array<{ label: string; url: string }> = []
+
+  const targets = linkData.targets || {}
+  if (targets.ios) alternates.push({ label: 'iOS', url: targets.ios })
+  if (targets.android) alternates.push({ label: 'Android', url: targets.android })
+  if (targets.desktop) alternates.push({ label: 'Desktop', url: targets.desktop })
+
+  for (const [country, url] of Object.entries(linkData.geo || {})) {
+    alternates.push({ label: country, url })
+  }
+
+  const totalWeight = (linkData.split || []).reduce((sum, variant) => sum + variant.weight, 0)
+  for (const variant of linkData.split || []) {
+    alternates.push({ label: `${Math.round((variant.weight / totalWeight) * 100)}% of visitors`, url: variant.url })
+  }
+
+  return alternates
+}
+
+export async function handlePreview(c: Context, slug: string): Promise<Response> {
+  const linkDataRaw = await c.env.LINKS.get(slug)
+  if (!linkDataRaw) {
+    return c.notFound()
+  }
+
+  const linkData = parseLinkData(linkDataRaw)
+
+  // KV's createdAt is rewritten on every sync; D1 keeps the original creation time and the click counter
+  let stats: LinkStats | null = null
+  try {
+    stats = (await c.env.DB.prepare(`
+      SELECT created_at, clicks FROM links WHERE slug = ?1 AND deleted_at IS NULL
+    `).bind(slug).first()) as LinkStats | null
+  } catch (error) {
+    console.error('Preview stats query failed:', error)
+  }
+
+  const expired = isExpired(linkData.expiresAt)
+  const destination = publicUrl(linkData)
+  const createdAt = stats?.created_at || linkData.createdAt
+  const safeSlug = escapeHtml(slug)
+
+  const destinationHtml = destination === null
+    ? `<div class="target">${HIDDEN_DESTINATION}</div>`
+    : `<div class="target"><a href="${escapeHtml(destination)}" rel="nofollow noopener">${escapeHtml(destination)}</a>${linkData.prefix ? ' (and any path below it)' : ''}</div>`
+
+  const alternates = destination === null ? [] : alternateDestinations(linkData)
+  const alternatesHtml = alternates.length > 0
+    ? `<div class="label">Other destinations</div>
+            <ul class="alternates target">
+              ${alternates.map(({ label, url }) => `<li>${escapeHtml(label)}: ${escapeHtml(url)}</li>`).join('')}
+            </ul>`
+    : ''
+
+  const expiryHtml = expired
+    ? `<span class="expired">Expired ${formatDate(linkData.expiresAt as number)}</span>`
+    : linkData.expiresAt
+      ? `<span>Expires ${formatDate(linkData.expiresAt)}</span>`
+      : ''
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="noindex">
+  <title>Preview: gitly.sh/${safeSlug}</title>
+  <style>${styles}${previewStyles}</style>
+</head>
+<body>
+  <div class="container">
+    <header>
+      <h1>gitly.sh/${safeSlug}<span> preview</span></h1>
+      <div class="stats">Check where this short link goes before you follow it.</div>
+    </header>
+    <div class="links">
+      <div class="link-card${expired ? ' is-expired' : ''}">
+        <div class="qr-code">
+          ${expired ? '' : `<img src="/${safeSlug}/qr?size=160" alt="QR code for ${safeSlug}">`}
+        </div>
+        <div class="link-info">
+          <div class="label">Destination</div>
+          ${destinationHtml}
+          ${alternatesHtml}
+          <div class="meta">
+            <span>By <a href="/@${escapeHtml(linkData.createdBy)}">@${escapeHtml(linkData.createdBy)}</a></span>
+            ${createdAt ? `<span>Created ${formatDate(createdAt)}</span>` : ''}
+            ${stats ? `<span class="clicks">${stats.clicks || 0} clicks</span>` : ''}
+            ${expiryHtml}
+          </div>
+          ${expired ? '' : `<a class="continue" href="/${safeSlug}">Continue to ${destination === null ? 'link' : 'destination'}</a>`}
+        </div>
+      </div>
+    </div>
+    <footer>
+      <a href="https://github.com/andrewmurphyio/gitly.sh">gitly.sh</a> - URL shortener for developers
+    </footer>
+  </div>
+</body>
+</html>`
+
+  return c.html(html, 200, { 'Cache-Control': 'no-store, no-cache, must-revalidate' })
+}
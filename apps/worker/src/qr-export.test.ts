@@ -0,0 +1,72 @@
+/**
+ * Tests for bulk QR export helpers
+ * Run with: npx tsx qr-export.test.ts
+ */
+
+import { EXPORT_PAGE_SIZE, parseExportPage, exportPageCount, buildManifest, zipFileName } from './qr-export'
+
+const fileNameCases: Array<{ slug: string; expected: string; description: string }> = [
+  { slug: 'gh', expected: 'gh.png', description: 'Plain slug' },
+  { slug: 'talk-2026_v1.2', expected: 'talk-2026_v1.2.png', description: 'Hyphens, underscores and dots are kept' },
+  { slug: '../etc/passwd', expected: '__etc_passwd.png', description: 'Path separators and leading dots are replaced' },
+  { slug: '.hidden', expected: '_hidden.png', description: 'No hidden files' },
+  { slug: 'café', expected: 'caf_.png', description: 'Non-ASCII is replaced' },
+  { slug: '', expected: '_.png', description: 'Empty slug still gets a name' },
+]
+
+const pageCases: Array<{ value: string | undefined; expected: number | null; description: string }> = [
+  { value: undefined, expected: 1, description: 'No page is the first page' },
+  { value: '2', expected: 2, description: 'Page number' },
+  { value: '0', expected: null, description: 'Pages start at 1' },
+  { value: '-1', expected: null, description: 'Negative page rejected' },
+  { value: '1.5', expected: null, description: 'Fractional page rejected' },
+  { value: '02', expected: null, description: 'Leading zero rejected' },
+  { value: 'abc', expected: null, description: 'Non-numeric page rejected' },
+]
+
+function runTests() {
+  console.log('Running QR export tests...\n')
+
+  let passed = 0
+  let failed = 0
+
+  const check = (ok: boolean, description: string, detail: string) => {
+    if (ok) {
+      console.log(`✓ ${description}`)
+      passed++
+    } else {
+      console.log(`✗ ${description}`)
+      console.log(`  ${detail}`)
+      failed++
+    }
+  }
+
+  for (const { slug, expected, description } of fileNameCases) {
+    const actual = zipFileName(slug, 'png')
+    check(actual === expected, description, `Expected: ${expected}, Actual: ${actual}`)
+  }
+
+  const manifest = buildManifest([
+    { slug: 'gh', url: 'https://github.com/u', file: 'gh.png', status: 'ok' },
+    { slug: 'q', url: 'https://example.com/?a=1,2&b="x"', file: '', status: 'Rate limited, try again shortly' },
+  ])
+  const expectedManifest = 'slug,url,file,status\ngh,https://github.com/u,gh.png,ok\nq,"https://example.com/?a=1,2&b=""x""",,"Rate limited, try again shortly"\n'
+  check(manifest === expectedManifest, 'Manifest is CSV with quoted fields where needed', JSON.stringify(manifest))
+  check(buildManifest([]) === 'slug,url,file,status\n', 'Empty manifest has the header', JSON.stringify(buildManifest([])))
+
+  for (const { value, expected, description } of pageCases) {
+    const actual = parseExportPage(value)
+    check(actual === expected, description, `Expected: ${expected}, Actual: ${actual}`)
+  }
+
+  const counts = [1, EXPORT_PAGE_SIZE, EXPORT_PAGE_SIZE + 1].map(exportPageCount)
+  check(JSON.stringify(counts) === '[1,1,2]', 'Pages hold EXPORT_PAGE_SIZE links', JSON.stringify(counts))
+
+  console.log(`\n${passed} passed, ${failed} failed`)
+
+  if (failed > 0) {
+    process.exit(1)
+  }
+}
+
+runTests()
@@ -0,0 +1,57 @@
+/**
+ * Bulk QR export helpers (see qr-zip.ts): pages, file names and manifest.csv.
+ *
+ * Kept free of Workers types so it can be unit tested with tsx.
+ */
+
+// Links per export page. A cold page makes 2 Cache API calls per code (match,
+// then put) on top of up to 8 fetches for qr.json and the logo (redirects
+// included); 20 codes keeps that within the free plan's 50 subrequests
+// (qr-zip.test.ts counts them). The slowest codes (1024px PNG with a logo) take
+// a few hundred ms of CPU each, so a page stays well inside the 30s CPU limit.
+export const EXPORT_PAGE_SIZE = 20
+
+const MANIFEST_COLUMNS = ['slug', 'url', 'file', 'status']
+
+export interface ManifestRow {
+  slug: string
+  url: string
+  file: string
+  status: string // "ok", or why the code is missing
+}
+
+function csvField(value: string): string {
+  // Quote fields containing commas, quotes or line breaks
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/**
+ * Page number from ?page= (1-based; defaults to the first page), or null when
+ * it isn't a positive whole number.
+ */
+export function parseExportPage(value: string | undefined): number | null {
+  if (value === undefined) return 1
+  return /^[1-9]\d{0,5}$/.test(value) ? Number(value) : null
+}
+
+/** Number of export pages for a user's active links */
+export function exportPageCount(linkCount: number): number {
+  return Math.ceil(linkCount / EXPORT_PAGE_SIZE)
+}
+
+/**
+ * manifest.csv listing every link, with the file holding its code.
+ */
+export function buildManifest(rows: ManifestRow[]): string {
+  const lines = rows.map((row) => MANIFEST_COLUMNS.map((column) => csvField(row[column as keyof ManifestRow])).join(','))
+  return [MANIFEST_COLUMNS.join(','), ...lines].join('\n') + '\n'
+}
+
+/**
+ * File name for a link's code. Slugs are user-chosen, so anything that could
+ * be read as a path (or upset an unzip tool) is replaced.
+ */
+export function zipFileName(slug: string, extension: string): string {
+  const safe = slug.replace(/[^A-Za-z0-9._-]/g, '_').replace(/^\.+/, '_')
+  return `${safe || '_'}.${extension}`
+}
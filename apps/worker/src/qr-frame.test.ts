@@ -0,0 +1,96 @@
+/**
+ * Tests for QR frames
+ * Run with: npx tsx qr-frame.test.ts
+ */
+
+import { parseFrame, frameLayout, frameSvg, framePixels } from './qr-frame'
+import { DEFAULT_QR_STYLE, QRStyle } from './qr-style'
+
+const parseCases: Array<{
+  params: Record<string, string>
+  expected: string | null
+  expectedError?: string
+  description: string
+}> = [
+  { params: {}, expected: null, description: 'No frame by default' },
+  { params: { frame: 'url' }, expected: 'gitly.sh/gh', description: 'frame=url captions the short URL' },
+  { params: { frame: 'scan' }, expected: 'Scan me', description: 'frame=scan' },
+  { params: { frame: 'none' }, expected: null, description: 'frame=none' },
+  { params: { caption: ' Table 7 ' }, expected: 'Table 7', description: 'caption alone turns the frame on' },
+  { params: { frame: 'url', caption: 'Scan for slides' }, expected: 'Scan for slides', description: 'caption overrides the preset text' },
+  { params: { frame: 'box' }, expected: null, expectedError: 'Invalid frame', description: 'Unknown frame' },
+  { params: { caption: '' }, expected: null, expectedError: 'caption must be', description: 'Empty caption' },
+  { params: { caption: 'x'.repeat(33) }, expected: null, expectedError: 'caption must be', description: 'Caption too long' },
+  { params: { caption: 'a\nb' }, expected: null, expectedError: 'caption must be', description: 'Control characters' },
+]
+
+function runTests() {
+  console.log('Running QR frame tests...\n')
+
+  let passed = 0
+  let failed = 0
+
+  const check = (ok: boolean, description: string, detail: string) => {
+    if (ok) {
+      console.log(`✓ ${description}`)
+      passed++
+    } else {
+      console.log(`✗ ${description}`)
+      console.log(`  ${detail}`)
+      failed++
+    }
+  }
+
+  for (const { params, expected, expectedError, description } of parseCases) {
+    const result = parseFrame(params, 'gh')
+    const ok = expectedError
+      ? result !== null && typeof result === 'object' && result.error.includes(expectedError)
+      : result === expected
+    check(ok, description, `Expected: ${expectedError ?? expected}, Actual: ${JSON.stringify(result)}`)
+  }
+
+  // Layout: 1 unit border + 2 unit gap on each side, 6 unit caption band
+  const layout = frameLayout(25, 1, 'Scan me')
+  check(layout.width === 31 && layout.height === 35 && layout.codeX === 3 && layout.codeY === 3, 'Frame surrounds the code', `Actual: ${JSON.stringify(layout)}`)
+  check(layout.captionX === 15.5 && layout.captionY === 31 && layout.fontSize === 3, 'Caption is centered below the code', `Actual: ${layout.captionX}, ${layout.captionY}, ${layout.fontSize}`)
+
+  const long = frameLayout(25, 1, 'x'.repeat(32))
+  check(long.fontSize * 32 * 0.6 <= 25 + 1e-9, 'Long captions shrink to fit the code width', `Actual font size: ${long.fontSize}`)
+
+  const scaled = frameLayout(100, 4, 'Scan me')
+  check(scaled.width === 124 && scaled.fontSize === 12, 'Units scale with the cell size', `Actual: ${scaled.width}, ${scaled.fontSize}`)
+
+  // SVG
+  const codeSvg = '<svg xmlns="http://www.w3.org/2000/svg" width="256" height="256" viewBox="0 0 25 25"><path d="M0 0H1V1H0V0Z"/></svg>'
+  const svg = frameSvg(codeSvg, 25, 'Tom & Jerry <3', 250, DEFAULT_QR_STYLE)
+  check(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg" width="310" height="350" viewBox="0 0 31 35">'), 'Code keeps its size; the frame adds to it', svg.slice(0, 120))
+  check(svg.includes('<svg xmlns="http://www.w3.org/2000/svg" x="3" y="3" width="25" height="25" viewBox="0 0 25 25">'), 'Code SVG is nested in place', svg)
+  check(svg.includes('>Tom &amp; Jerry &lt;3</text>'), 'Caption is escaped', svg)
+
+  const clear: QRStyle = { ...DEFAULT_QR_STYLE, bg: null }
+  check(!frameSvg(codeSvg, 25, 'Scan me', 250, clear).includes('<rect'), 'Transparent frames have no background', '')
+
+  // PNG: 2x2 red code, 1px cells, 1x1 caption mask at full coverage
+  const red = new Uint8Array([255, 0, 0, 255, 255, 0, 0, 255, 255, 0, 0, 255, 255, 0, 0, 255])
+  const small = frameLayout(2, 1, 'x')
+  const pixels = framePixels(red, 2, small, DEFAULT_QR_STYLE, { alpha: new Uint8Array([255]), width: 1, height: 1 })
+  const at = (x: number, y: number) => Array.from(pixels.slice((y * small.width + x) * 4, (y * small.width + x) * 4 + 4)).join(',')
+  check(pixels.length === small.width * small.height * 4, 'Output covers the whole frame', `Actual: ${pixels.length}`)
+  check(at(0, 5) === '0,0,0,255', 'Border is drawn in the foreground', `Actual: ${at(0, 5)}`)
+  check(at(2, 2) === '255,255,255,255', 'Gap is background', `Actual: ${at(2, 2)}`)
+  check(at(3, 3) === '255,0,0,255' && at(4, 4) === '255,0,0,255', 'Code pixels are copied into place', `Actual: ${at(3, 3)}, ${at(4, 4)}`)
+  const captionPixel = at(Math.round(small.captionX - 0.5), Math.round(small.captionY - 0.5))
+  check(captionPixel === '0,0,0,255', 'Caption is blended in the foreground', `Actual: ${captionPixel}`)
+
+  const transparent = framePixels(red, 2, small, clear, { alpha: new Uint8Array([128]), width: 1, height: 1 })
+  const idx = (Math.round(small.captionY - 0.5) * small.width + Math.round(small.captionX - 0.5)) * 4
+  check(transparent[idx + 3] === 128, 'Caption alpha is kept on transparent frames', `Actual alpha: ${transparent[idx + 3]}`)
+
+  console.log(`\n${passed} passed, ${failed} failed`)
+
+  if (failed > 0) {
+    process.exit(1)
+  }
+}
+
+runTests()
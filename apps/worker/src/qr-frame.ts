@@ -0,0 +1,168 @@
+/**
+ * QR code frames
+ *
+ * A frame is a border around the finished code (logo included) with a caption
+ * underneath, such as "Scan me" or the short URL, so printed codes carry a
+ * human-readable link without laying it out by hand.
+ *
+ * The layout is computed in units of one QR module and drawn either as SVG or
+ * into PNG pixels. PNG captions are rendered by photon in qr.ts and passed in
+ * as an alpha mask, since text rendering needs the WASM font renderer.
+ *
+ * Kept free of Workers types so it can be unit tested with tsx.
+ */
+
+import { QRShape, QRStyle, rect, paintShapes, shapePath, formatColor, num } from './qr-style'
+import { escapeHtml } from './html'
+
+export type FramePreset = 'url' | 'scan'
+
+export const FRAME_PRESETS: readonly FramePreset[] = ['url', 'scan']
+export const MAX_CAPTION_LENGTH = 32
+
+// Frame geometry, in units (one QR module)
+const BORDER = 1
+const GAP = 2 // Between the border and the code's own quiet zone
+const CAPTION_HEIGHT = 6
+const CORNER_RADIUS = 2
+const FONT_SIZE = 3
+// Average glyph advance as a fraction of the font size, for shrinking long captions to fit
+const CHAR_WIDTH = 0.6
+
+export const CAPTION_FONT_FAMILY = 'Roboto, Helvetica, Arial, sans-serif'
+
+export interface FrameLayout {
+  width: number
+  height: number
+  codeX: number // Top-left corner of the code
+  codeY: number
+  border: QRShape // Ring around the whole frame
+  captionX: number // Center of the caption
+  captionY: number
+  fontSize: number
+  maxCaptionWidth: number
+}
+
+/** Rendered caption text: one alpha value (0-255) per pixel */
+export interface CaptionMask {
+  alpha: Uint8Array
+  width: number
+  height: number
+}
+
+/**
+ * Caption for ?frame= and ?caption=, or null when the code isn't framed.
+ * frame=url shows the short URL and frame=scan shows "Scan me". caption= sets
+ * custom text and turns the frame on by itself.
+ */
+export function parseFrame(values: Record<string, string | undefined>, slug: string): string | null | { error: string } {
+  const { frame, caption } = values
+
+  if (frame === 'none') return null
+  if (frame !== undefined && !FRAME_PRESETS.includes(frame as FramePreset)) {
+    return { error: `Invalid frame: ${frame} (use ${FRAME_PRESETS.join(', ')} or none)` }
+  }
+
+  if (caption !== undefined) {
+    const text = caption.trim()
+    if (!text || text.length > MAX_CAPTION_LENGTH || /[\x00-\x1f\x7f]/.test(text)) {
+      return { error: `caption must be 1-${MAX_CAPTION_LENGTH} printable characters` }
+    }
+    return text
+  }
+
+  if (frame === 'url') return `gitly.sh/${slug}`
+  if (frame === 'scan') return 'Scan me'
+  return null
+}
+
+/**
+ * Frame layout around a code of `codeSide` (its quiet zone included).
+ * `unit` is the size of one module: 1 for SVG, the cell size in pixels for PNG.
+ * The caption font shrinks so long captions stay within the code's width.
+ */
+export function frameLayout(codeSide: number, unit: number, caption: string): FrameLayout {
+  const border = BORDER * unit
+  const inset = (BORDER + GAP) * unit
+  const width = codeSide + inset * 2
+  const height = inset + codeSide + CAPTION_HEIGHT * unit + border
+  const maxCaptionWidth = codeSide
+
+  return {
+    width,
+    height,
+    codeX: inset,
+    codeY: inset,
+    border: rect(0, 0, width, height, CORNER_RADIUS * unit, rect(border, border, width - border * 2, height - border * 2, (CORNER_RADIUS - BORDER) * unit)),
+    captionX: width / 2,
+    captionY: inset + codeSide + (CAPTION_HEIGHT / 2) * unit,
+    fontSize: Math.min(FONT_SIZE * unit, maxCaptionWidth / (caption.length * CHAR_WIDTH)),
+    maxCaptionWidth,
+  }
+}
+
+/**
+ * Wrap a code SVG (renderQRSvg output, logo included) in a frame.
+ * The code is nested as-is; its own viewBox scales it into place.
+ *
+ * @param codeSide - Side of the code's viewBox (modules plus quiet zone)
+ * @param size - Width of the code in pixels; the frame adds to it, as in PNG output
+ */
+export function frameSvg(codeSvg: string, codeSide: number, caption: string, size: number, style: QRStyle): string {
+  const layout = frameLayout(codeSide, 1, caption)
+  const { border } = layout
+  const scale = size / codeSide
+
+  const code = codeSvg.replace(
+    /^<svg([^>]*?) width="\d+" height="\d+"/,
+    `<svg$1 x="${num(layout.codeX)}" y="${num(layout.codeY)}" width="${num(codeSide)}" height="${num(codeSide)}"`
+  )
+  const background = style.bg ? `<rect width="${num(layout.width)}" height="${num(layout.height)}" fill="${formatColor(style.bg)}"/>` : ''
+  const fg = formatColor(style.fg)
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${Math.round(layout.width * scale)}" height="${Math.round(layout.height * scale)}" viewBox="0 0 ${num(layout.width)} ${num(layout.height)}">` +
+    background +
+    `<path fill="${fg}" fill-rule="evenodd" d="${shapePath(border, 0)}${border.hole ? shapePath(border.hole, 0) : ''}"/>` +
+    code +
+    `<text x="${num(layout.captionX)}" y="${num(layout.captionY)}" font-family="${CAPTION_FONT_FAMILY}" font-size="${num(layout.fontSize)}" ` +
+    `text-anchor="middle" dominant-baseline="central" fill="${fg}">${escapeHtml(caption)}</text>` +
+    `</svg>`
+  )
+}
+
+/**
+ * Draw a frame around a code's RGBA pixels (codeSide x codeSide) and blend the
+ * caption mask, centered, in the foreground color.
+ */
+export function framePixels(code: Uint8Array, codeSide: number, layout: FrameLayout, style: QRStyle, caption: CaptionMask): Uint8Array {
+  const { width, height } = layout
+  const pixels = paintShapes([layout.border], width, height, style)
+
+  for (let y = 0; y < codeSide; y++) {
+    pixels.set(code.subarray(y * codeSide * 4, (y + 1) * codeSide * 4), ((layout.codeY + y) * width + layout.codeX) * 4)
+  }
+
+  // Source-over blend, so captions work on transparent frames too
+  const x0 = Math.round(layout.captionX - caption.width / 2)
+  const y0 = Math.round(layout.captionY - caption.height / 2)
+  const { fg } = style
+  for (let y = 0; y < caption.height; y++) {
+    for (let x = 0; x < caption.width; x++) {
+      const a = caption.alpha[y * caption.width + x] / 255
+      const px = x0 + x
+      const py = y0 + y
+      if (a === 0 || px < 0 || py < 0 || px >= width || py >= height) continue
+
+      const idx = (py * width + px) * 4
+      const dstA = pixels[idx + 3] / 255
+      const outA = a + dstA * (1 - a)
+      pixels[idx] = Math.round((fg.r * a + pixels[idx] * dstA * (1 - a)) / outA)
+      pixels[idx + 1] = Math.round((fg.g * a + pixels[idx + 1] * dstA * (1 - a)) / outA)
+      pixels[idx + 2] = Math.round((fg.b * a + pixels[idx + 2] * dstA * (1 - a)) / outA)
+      pixels[idx + 3] = Math.round(outA * 255)
+    }
+  }
+
+  return pixels
+}
@@ -0,0 +1,96 @@
+import { Context } from 'hono'
+import { qrMatrix, tryGetUserQRStyle } from './qr'
+import { parseQRStyle } from './qr-style'
+import { LABEL_TEMPLATES, DEFAULT_LABEL_TEMPLATE, renderLabelSheets } from './label-sheet'
+import { isExpired, publicUrl } from './link-data'
+
+/**
+ * Printable QR labels: GET /@username/labels.pdf
+ *
+ * A PDF of label sheets with one QR label per link (short URL and destination
+ * as the caption; password-protected links don't show their destination), for printing asset tags, table cards and the like.
+ *
+ * Query params:
+ *   template - Sheet layout (see LABEL_TEMPLATES), default L7160
+ *   slugs    - Comma-separated links to print, in that order (default: all active links, by slug)
+ *   start    - Labels already used on the first sheet, to finish a partly used sheet
+ *   fg, bg, shape, eye - QR style, on top of the user's qr.json (as for /:slug/qr)
+ */
+
+// Labels per PDF (keeps CPU time per request bounded)
+export const MAX_LABELS = 300
+
+interface UserLink {
+  slug: string
+  url: string
+  expires_at: number | null
+  password_protected: number
+}
+
+export async function handleQRLabels(c: Context, username: string): Promise<Response> {
+  const templateName = c.req.query('template') || DEFAULT_LABEL_TEMPLATE
+  const template = LABEL_TEMPLATES[templateName]
+  if (!template) {
+    return c.json({
+      error: 'Invalid template',
+      message: `template must be one of: ${Object.entries(LABEL_TEMPLATES).map(([name, t]) => `${name} (${t.description})`).join(', ')}`,
+    }, 400)
+  }
+
+  const perSheet = template.columns * template.rows
+  const start = parseInt(c.req.query('start') || '0', 10)
+  if (isNaN(start) || start < 0 || start >= perSheet) {
+    return c.json({ error: 'Invalid start', message: `start must be between 0 and ${perSheet - 1} for ${templateName}` }, 400)
+  }
+
+  const style = parseQRStyle(c.req.query(), await tryGetUserQRStyle(username))
+  if ('error' in style) {
+    return c.json({ error: 'Invalid QR options', details: style.error }, 400)
+  }
+
+  const db: D1Database = c.env.DB
+  let links: UserLink[]
+  try {
+    const result = await db.prepare(`
+      SELECT slug, url, expires_at, password_protected
+      FROM links
+      WHERE created_by = ?1 AND deleted_at IS NULL
+      ORDER BY slug
+    `).bind(username).all<UserLink>()
+    // Expired links no longer redirect, so their codes would be useless on a label
+    links = (result.results || []).filter((link) => !isExpired(link.expires_at))
+  } catch (error) {
+    console.error('Label sheet query failed:', error)
+    return c.text('Internal Server Error', 500)
+  }
+
+  const slugsParam = c.req.query('slugs')
+  if (slugsParam !== undefined) {
+    const bySlug = new Map(links.map((link) => [link.slug, link]))
+    const slugs = slugsParam.split(',').map((slug) => slug.trim()).filter(Boolean)
+    const unknown = slugs.filter((slug) => !bySlug.has(slug))
+    if (unknown.length > 0) {
+      return c.json({ error: 'Unknown links', message: `Not active links of @${username}: ${unknown.join(', ')}` }, 400)
+    }
+    links = slugs.map((slug) => bySlug.get(slug) as UserLink)
+  }
+
+  if (links.length === 0) {
+    return c.json({ error: 'No links found', message: `@${username} has no active links` }, 404)
+  }
+  if (links.length > MAX_LABELS) {
+    return c.json({ error: 'Too many labels', message: `At most ${MAX_LABELS} labels per PDF; choose links with ?slugs=` }, 400)
+  }
+
+  const labels = links.map((link) => ({ slug: link.slug, url: publicUrl(link), qr: qrMatrix(link.slug, 'M') }))
+  const pdf = await renderLabelSheets(labels, template, style, `@${username} QR labels (${templateName})`, start)
+
+  return new Response(pdf, {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `inline; filename="${username}-labels-${templateName}.pdf"`,
+      'Cache-Control': 'no-store',
+    },
+  })
+}
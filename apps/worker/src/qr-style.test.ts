@@ -0,0 +1,137 @@
+/**
+ * Tests for QR styling
+ * Run with: npx tsx qr-style.test.ts
+ */
+
+import { parseColor, contrastRatio, parseQRStyle, qrShapes, rasterizeQR, renderQRSvg, DEFAULT_QR_STYLE, QRMatrix, QRStyle } from './qr-style'
+
+/**
+ * A fake 21x21 matrix (version 1 size) from a list of dark [row, col] cells.
+ */
+function matrix(dark: Array<[number, number]>): QRMatrix {
+  const cells = new Set(dark.map(([row, col]) => `${row},${col}`))
+  return { getModuleCount: () => 21, isDark: (row, col) => cells.has(`${row},${col}`) }
+}
+
+const colorCases: Array<{ input: string; expected: string | null; description: string }> = [
+  { input: '1a237e', expected: '26,35,126', description: 'Six hex digits' },
+  { input: '#1A237E', expected: '26,35,126', description: 'Leading # and uppercase' },
+  { input: 'fff', expected: '255,255,255', description: 'Three hex digits expand' },
+  { input: 'red', expected: null, description: 'Named colors are rejected' },
+  { input: '12345', expected: null, description: 'Wrong length is rejected' },
+]
+
+const styleCases: Array<{ params: Record<string, unknown>; expectedError: string | null; description: string }> = [
+  { params: {}, expectedError: null, description: 'Defaults are valid' },
+  { params: { fg: '1a237e', bg: 'fafafa', shape: 'rounded', eye: 'circle' }, expectedError: null, description: 'Dark blue on off-white' },
+  { params: { bg: 'transparent' }, expectedError: null, description: 'Transparent background' },
+  { params: { fg: 'cccccc' }, expectedError: 'Not enough contrast', description: 'Light gray on white is refused' },
+  { params: { fg: '777', bg: '444' }, expectedError: 'darker than the background', description: 'Light on dark is refused' },
+  { params: { fg: 'ffffff', bg: 'transparent' }, expectedError: 'darker than the background', description: 'White on transparent is refused' },
+  { params: { fg: 'ff0000', bg: 'ff3333' }, expectedError: 'Not enough contrast', description: 'Similar colors are refused' },
+  { params: { fg: 'nope' }, expectedError: 'Invalid fg color', description: 'Invalid fg' },
+  { params: { bg: 'none' }, expectedError: 'Invalid bg color', description: 'Invalid bg' },
+  { params: { shape: 'star' }, expectedError: 'Invalid shape', description: 'Unknown module shape' },
+  { params: { eye: 'leaf' }, expectedError: 'Invalid eye', description: 'Unknown eye style' },
+  { params: { shape: 2 }, expectedError: 'must be a string', description: 'Non-string value (qr.json)' },
+]
+
+function style(overrides: Partial<QRStyle>): QRStyle {
+  return { ...DEFAULT_QR_STYLE, ...overrides }
+}
+
+function runTests() {
+  console.log('Running QR style tests...\n')
+
+  let passed = 0
+  let failed = 0
+
+  const check = (ok: boolean, description: string, detail: string) => {
+    if (ok) {
+      console.log(`✓ ${description}`)
+      passed++
+    } else {
+      console.log(`✗ ${description}`)
+      console.log(`  ${detail}`)
+      failed++
+    }
+  }
+
+  for (const { input, expected, description } of colorCases) {
+    const color = parseColor(input)
+    const actual = color ? `${color.r},${color.g},${color.b}` : null
+    check(actual === expected, description, `Expected: ${expected}, Actual: ${actual}`)
+  }
+
+  const ratio = contrastRatio({ r: 0, g: 0, b: 0 }, { r: 255, g: 255, b: 255 })
+  check(Math.abs(ratio - 21) < 0.001, 'Black on white has a 21:1 contrast ratio', `Actual: ${ratio}`)
+
+  for (const { params, expectedError, description } of styleCases) {
+    const result = parseQRStyle(params)
+    const actual = 'error' in result ? result.error : null
+    const ok = expectedError === null ? actual === null : actual !== null && actual.includes(expectedError)
+    check(ok, description, `Expected error: ${expectedError}, Actual: ${actual}`)
+  }
+
+  // Query params apply on top of a user's defaults
+  const merged = parseQRStyle({ shape: 'square' }, style({ shape: 'dots', eye: 'circle' }))
+  check(!('error' in merged) && merged.shape === 'square' && merged.eye === 'circle', 'Params override only the keys they set', `Actual: ${JSON.stringify(merged)}`)
+
+  // Shapes: 3 finder patterns (ring + center each), plus data modules
+  const qr = matrix([[0, 0], [10, 10], [10, 11], [10, 12], [12, 10]])
+  const squares = qrShapes(qr, DEFAULT_QR_STYLE)
+  check(squares.length === 6 + 2, 'Finder modules are drawn as eyes, square runs merge', `Actual: ${squares.length} shapes`)
+  check(squares[6].w === 3 && squares[7].w === 1, 'A run of three modules is one shape', `Actual widths: ${squares[6].w}, ${squares[7].w}`)
+
+  const rounded = qrShapes(qr, style({ shape: 'rounded' })).slice(6)
+  const [left, middle, right, single] = rounded
+  check(
+    JSON.stringify([left.radii, middle.radii, right.radii, single.radii]) === JSON.stringify([[0.5, 0, 0, 0.5], [0, 0, 0, 0], [0, 0.5, 0.5, 0], [0.5, 0.5, 0.5, 0.5]]),
+    'Rounded modules only round corners without dark neighbors',
+    `Actual: ${JSON.stringify(rounded.map((s) => s.radii))}`
+  )
+
+  const circleEyes = qrShapes(qr, style({ eye: 'circle' }))
+  check(circleEyes[0].radii[0] === 3.5 && circleEyes[0].hole?.radii[0] === 2.5, 'Circle eyes are rings', `Actual: ${JSON.stringify(circleEyes[0])}`)
+
+  // PNG pixels: 1px per module, 2px margin
+  const layout = { cellSize: 1, margin: 2 }
+  const pixelAt = (pixels: Uint8Array, side: number, x: number, y: number) => Array.from(pixels.slice((y * side + x) * 4, (y * side + x) * 4 + 4)).join(',')
+
+  const colored = style({ fg: { r: 26, g: 35, b: 126 }, bg: { r: 250, g: 250, b: 250 } })
+  const png = rasterizeQR(qrShapes(qr, colored), 21, layout, colored)
+  check(png.side === 25, 'Raster size includes the margin', `Actual: ${png.side}`)
+  check(pixelAt(png.pixels, png.side, 2, 2) === '26,35,126,255', 'Finder ring uses the foreground', `Actual: ${pixelAt(png.pixels, png.side, 2, 2)}`)
+  check(pixelAt(png.pixels, png.side, 3, 3) === '250,250,250,255', 'Finder ring hole uses the background', `Actual: ${pixelAt(png.pixels, png.side, 3, 3)}`)
+  check(pixelAt(png.pixels, png.side, 5, 5) === '26,35,126,255', 'Finder center uses the foreground', `Actual: ${pixelAt(png.pixels, png.side, 5, 5)}`)
+
+  const clear = style({ bg: null })
+  const transparent = rasterizeQR(qrShapes(qr, clear), 21, layout, clear)
+  check(pixelAt(transparent.pixels, transparent.side, 0, 0).endsWith(',0'), 'Transparent background has zero alpha', `Actual: ${pixelAt(transparent.pixels, transparent.side, 0, 0)}`)
+
+  // Dots cover less than the whole module: anti-aliased edge pixels
+  const dots = style({ shape: 'dots' })
+  const dotted = rasterizeQR(qrShapes(qr, dots), 21, { cellSize: 10, margin: 0 }, dots)
+  const dotCenter = pixelAt(dotted.pixels, dotted.side, 105, 105)
+  const dotCorner = pixelAt(dotted.pixels, dotted.side, 101, 101)
+  check(dotCenter === '0,0,0,255' && dotCorner === '255,255,255,255', 'Dots leave module corners empty', `Center: ${dotCenter}, corner: ${dotCorner}`)
+
+  // SVG
+  const svg = renderQRSvg(qrShapes(qr, colored), 21, 2, 256, colored)
+  check(svg.includes('viewBox="0 0 25 25"') && svg.includes('fill="#fafafa"') && svg.includes('fill="#1a237e"'), 'SVG uses the style colors', svg.slice(0, 200))
+  check(svg.includes('M2 2H9V9H2V2Z'), 'SVG path is offset by the margin', svg.slice(0, 300))
+
+  const clearSvg = renderQRSvg(qrShapes(qr, clear), 21, 2, 256, clear)
+  check(!clearSvg.includes('<rect'), 'Transparent SVG has no background rect', clearSvg.slice(0, 200))
+
+  const roundSvg = renderQRSvg(qrShapes(qr, style({ eye: 'circle' })), 21, 2, 256, style({ eye: 'circle' }))
+  check(roundSvg.includes('A3.5 3.5') && !roundSvg.includes('crispEdges'), 'Round shapes use arcs without crispEdges', roundSvg.slice(0, 300))
+
+  console.log(`\n${passed} passed, ${failed} failed`)
+
+  if (failed > 0) {
+    process.exit(1)
+  }
+}
+
+runTests()
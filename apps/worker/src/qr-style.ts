@@ -0,0 +1,406 @@
+/**
+ * QR code styling and rendering
+ *
+ * Turns a QR module matrix into a list of shapes (in module units) according to
+ * a QRStyle, then draws those shapes as RGBA pixels (PNG) or an SVG path. Both
+ * formats render from the same shapes, so a style looks the same in either.
+ *
+ * Kept free of Hono/Workers types so it can be unit tested with tsx.
+ */
+
+export type ModuleShape = 'square' | 'rounded' | 'dots'
+export type EyeStyle = 'square' | 'rounded' | 'circle'
+
+export interface RGB {
+  r: number
+  g: number
+  b: number
+}
+
+export interface QRStyle {
+  fg: RGB
+  bg: RGB | null // null = transparent
+  shape: ModuleShape // Data modules
+  eye: EyeStyle // The three finder patterns in the corners
+}
+
+/** The parts of a qrcode-generator QR object the renderers need */
+export interface QRMatrix {
+  getModuleCount(): number
+  isDark(row: number, col: number): boolean
+}
+
+/**
+ * A filled rectangle in module units, with optional rounded corners and an
+ * optional hole (finder pattern rings). Circles are squares with radius w/2.
+ */
+export interface QRShape {
+  x: number
+  y: number
+  w: number
+  h: number
+  radii: [number, number, number, number] // Corner radii: top-left, top-right, bottom-right, bottom-left
+  hole?: QRShape
+}
+
+export const MODULE_SHAPES: readonly ModuleShape[] = ['square', 'rounded', 'dots']
+export const EYE_STYLES: readonly EyeStyle[] = ['square', 'rounded', 'circle']
+
+export const DEFAULT_QR_STYLE: QRStyle = {
+  fg: { r: 0, g: 0, b: 0 },
+  bg: { r: 255, g: 255, b: 255 },
+  shape: 'square',
+  eye: 'square',
+}
+
+// Minimum contrast between foreground and background (WCAG contrast ratio;
+// black on white is 21). Below this, phone cameras start failing to read codes.
+export const MIN_CONTRAST_RATIO = 3
+
+// Transparent codes are assumed to be placed on a light background
+const ASSUMED_BACKGROUND: RGB = { r: 255, g: 255, b: 255 }
+
+/**
+ * Parse a hex color: "#rgb", "#rrggbb", or the same without "#"
+ * (a literal # has to be escaped as %23 in a query string).
+ */
+export function parseColor(value: string): RGB | null {
+  const match = value.trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i)
+  if (!match) return null
+
+  let hex = match[1]
+  if (hex.length === 3) {
+    hex = hex.split('').map((ch) => ch + ch).join('')
+  }
+  return {
+    r: parseInt(hex.slice(0, 2), 16),
+    g: parseInt(hex.slice(2, 4), 16),
+    b: parseInt(hex.slice(4, 6), 16),
+  }
+}
+
+export function formatColor(color: RGB): string {
+  return '#' + [color.r, color.g, color.b].map((c) => c.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * WCAG relative luminance (0 = black, 1 = white).
+ */
+export function relativeLuminance(color: RGB): number {
+  const channel = (c: number) => {
+    const s = c / 255
+    return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4)
+  }
+  return 0.2126 * channel(color.r) + 0.7152 * channel(color.g) + 0.0722 * channel(color.b)
+}
+
+/**
+ * WCAG contrast ratio between two colors (1 to 21).
+ */
+export function contrastRatio(a: RGB, b: RGB): number {
+  const la = relativeLuminance(a)
+  const lb = relativeLuminance(b)
+  return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05)
+}
+
+/**
+ * Apply style options (query params or a user's qr.json) on top of a base style.
+ * Keys: fg, bg (a color or "transparent"), shape, eye. Missing keys keep the
+ * base value.
+ *
+ * Returns an error when a value is invalid or the resulting colors wouldn't
+ * scan: too little contrast, or light modules on a dark background (many
+ * scanner apps can't read inverted codes).
+ */
+export function parseQRStyle(values: Record<string, unknown>, base: QRStyle = DEFAULT_QR_STYLE): QRStyle | { error: string } {
+  const style: QRStyle = { ...base }
+
+  for (const key of ['fg', 'bg', 'shape', 'eye']) {
+    const value = values[key]
+    if (value === undefined) continue
+    if (typeof value !== 'string') {
+      return { error: `${key} must be a string` }
+    }
+
+    if (key === 'fg') {
+      const color = parseColor(value)
+      if (!color) return { error: `Invalid fg color: ${value} (use hex, e.g. 1a237e)` }
+      style.fg = color
+    } else if (key === 'bg') {
+      const color = value === 'transparent' ? null : parseColor(value)
+      if (color === null && value !== 'transparent') {
+        return { error: `Invalid bg color: ${value} (use hex, e.g. fafafa, or "transparent")` }
+      }
+      style.bg = color
+    } else if (key === 'shape') {
+      if (!MODULE_SHAPES.includes(value as ModuleShape)) {
+        return { error: `Invalid shape: ${value} (use ${MODULE_SHAPES.join(', ')})` }
+      }
+      style.shape = value as ModuleShape
+    } else {
+      if (!EYE_STYLES.includes(value as EyeStyle)) {
+        return { error: `Invalid eye: ${value} (use ${EYE_STYLES.join(', ')})` }
+      }
+      style.eye = value as EyeStyle
+    }
+  }
+
+  const background = style.bg ?? ASSUMED_BACKGROUND
+  if (relativeLuminance(style.fg) >= relativeLuminance(background)) {
+    return { error: 'Foreground must be darker than the background' }
+  }
+  const ratio = contrastRatio(style.fg, background)
+  if (ratio < MIN_CONTRAST_RATIO) {
+    return { error: `Not enough contrast between fg and bg to scan reliably (${ratio.toFixed(1)}:1, minimum ${MIN_CONTRAST_RATIO}:1)` }
+  }
+
+  return style
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Shapes
+// ─────────────────────────────────────────────────────────────────────────────
+
+const FINDER_SIZE = 7
+
+export function rect(x: number, y: number, w: number, h: number, r = 0, hole?: QRShape): QRShape {
+  return { x, y, w, h, radii: [r, r, r, r], hole }
+}
+
+/**
+ * The three finder patterns: a 7x7 ring around a 3x3 center, per eye style.
+ */
+function finderShapes(moduleCount: number, eye: EyeStyle): QRShape[] {
+  const corners = [[0, 0], [moduleCount - FINDER_SIZE, 0], [0, moduleCount - FINDER_SIZE]]
+  // [outer ring radius, ring hole radius, center radius]
+  const [outer, inner, center] = eye === 'circle' ? [3.5, 2.5, 1.5] : eye === 'rounded' ? [2, 1, 0.75] : [0, 0, 0]
+
+  return corners.flatMap(([x, y]) => [
+    rect(x, y, FINDER_SIZE, FINDER_SIZE, outer, rect(x + 1, y + 1, 5, 5, inner)),
+    rect(x + 2, y + 2, 3, 3, center),
+  ])
+}
+
+function inFinder(row: number, col: number, moduleCount: number): boolean {
+  const far = moduleCount - FINDER_SIZE
+  return (row < FINDER_SIZE && (col < FINDER_SIZE || col >= far)) || (row >= far && col < FINDER_SIZE)
+}
+
+/**
+ * Shapes for every dark module, in module units (0..moduleCount).
+ * Square modules are merged into horizontal runs to keep SVG output small.
+ * Rounded modules only round corners that don't touch a neighboring dark
+ * module, so adjacent modules join into smooth blobs.
+ */
+export function qrShapes(qr: QRMatrix, style: QRStyle): QRShape[] {
+  const n = qr.getModuleCount()
+  const dark = (row: number, col: number) =>
+    row >= 0 && col >= 0 && row < n && col < n && !inFinder(row, col, n) && qr.isDark(row, col)
+
+  const shapes = finderShapes(n, style.eye)
+
+  for (let row = 0; row < n; row++) {
+    for (let col = 0; col < n; col++) {
+      if (!dark(row, col)) continue
+
+      if (style.shape === 'square') {
+        let end = col + 1
+        while (dark(row, end)) end++
+        shapes.push(rect(col, row, end - col, 1))
+        col = end - 1
+      } else if (style.shape === 'dots') {
+        shapes.push(rect(col + 0.1, row + 0.1, 0.8, 0.8, 0.4))
+      } else {
+        const up = dark(row - 1, col)
+        const down = dark(row + 1, col)
+        const left = dark(row, col - 1)
+        const right = dark(row, col + 1)
+        const r = 0.5
+        shapes.push({
+          x: col,
+          y: row,
+          w: 1,
+          h: 1,
+          radii: [up || left ? 0 : r, up || right ? 0 : r, down || right ? 0 : r, down || left ? 0 : r],
+        })
+      }
+    }
+  }
+
+  return shapes
+}
+
+/**
+ * Where a center logo goes, in module units from the top-left module: a plate
+ * of background color snapped to the module grid (odd-sized, so it centers in
+ * the odd-sized matrix) with the logo inside it and one module of padding.
+ */
+export function logoPlacement(moduleCount: number, logoSize: number): { plateStart: number; plateModules: number; logoStart: number; logoModules: number } {
+  let logoModules = Math.ceil(moduleCount * logoSize)
+  let plateModules = logoModules + 2 // 1 module padding per side
+  if (plateModules % 2 === 0) plateModules += 1
+  logoModules = plateModules - 2
+
+  const plateStart = Math.floor((moduleCount - plateModules) / 2)
+  return { plateStart, plateModules, logoStart: plateStart + 1, logoModules }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// PNG (raw RGBA pixels, encoded by photon in qr.ts)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface RasterLayout {
+  cellSize: number // Pixels per module
+  margin: number // Pixels of quiet zone on each side
+}
+
+function overlap(a0: number, a1: number, b0: number, b1: number): number {
+  return Math.max(0, Math.min(a1, b1) - Math.max(a0, b0))
+}
+
+function insideRounded(x: number, y: number, s: QRShape): boolean {
+  if (x < s.x || y < s.y || x > s.x + s.w || y > s.y + s.h) return false
+  const [tl, tr, br, bl] = s.radii
+  const corner = (cx: number, cy: number, r: number) => (x - cx) ** 2 + (y - cy) ** 2 <= r * r
+
+  if (x < s.x + tl && y < s.y + tl) return corner(s.x + tl, s.y + tl, tl)
+  if (x > s.x + s.w - tr && y < s.y + tr) return corner(s.x + s.w - tr, s.y + tr, tr)
+  if (x > s.x + s.w - br && y > s.y + s.h - br) return corner(s.x + s.w - br, s.y + s.h - br, br)
+  if (x < s.x + bl && y > s.y + s.h - bl) return corner(s.x + bl, s.y + s.h - bl, bl)
+  return true
+}
+
+/**
+ * Fraction of the pixel at (px, py) covered by a shape (already in pixel units).
+ * Exact for straight edges; pixels touching a rounded corner are supersampled.
+ */
+function pixelCoverage(px: number, py: number, s: QRShape): number {
+  const covered = overlap(px, px + 1, s.x, s.x + s.w) * overlap(py, py + 1, s.y, s.y + s.h)
+  if (covered === 0) return 0
+
+  const [tl, tr, br, bl] = s.radii
+  const nearCorner =
+    (tl > 0 && px < s.x + tl && py < s.y + tl) ||
+    (tr > 0 && px + 1 > s.x + s.w - tr && py < s.y + tr) ||
+    (br > 0 && px + 1 > s.x + s.w - br && py + 1 > s.y + s.h - br) ||
+    (bl > 0 && px < s.x + bl && py + 1 > s.y + s.h - bl)
+  if (!nearCorner) return covered
+
+  const SAMPLES = 4
+  let inside = 0
+  for (let sy = 0; sy < SAMPLES; sy++) {
+    for (let sx = 0; sx < SAMPLES; sx++) {
+      if (insideRounded(px + (sx + 0.5) / SAMPLES, py + (sy + 0.5) / SAMPLES, s)) inside++
+    }
+  }
+  return inside / (SAMPLES * SAMPLES)
+}
+
+function toPixels(s: QRShape, layout: RasterLayout): QRShape {
+  const scale = layout.cellSize
+  return {
+    x: layout.margin + s.x * scale,
+    y: layout.margin + s.y * scale,
+    w: s.w * scale,
+    h: s.h * scale,
+    radii: s.radii.map((r) => r * scale) as QRShape['radii'],
+  }
+}
+
+/**
+ * Draw shapes that are already in pixel units into a width x height RGBA
+ * buffer: foreground shapes over the style's background.
+ */
+export function paintShapes(shapes: QRShape[], width: number, height: number, style: QRStyle): Uint8Array {
+  const coverage = new Float32Array(width * height)
+
+  const paint = (s: QRShape, sign: number) => {
+    const x0 = Math.max(0, Math.floor(s.x))
+    const y0 = Math.max(0, Math.floor(s.y))
+    const x1 = Math.min(width, Math.ceil(s.x + s.w))
+    const y1 = Math.min(height, Math.ceil(s.y + s.h))
+    for (let py = y0; py < y1; py++) {
+      for (let px = x0; px < x1; px++) {
+        coverage[py * width + px] += sign * pixelCoverage(px, py, s)
+      }
+    }
+  }
+
+  for (const shape of shapes) {
+    paint(shape, 1)
+    if (shape.hole) paint(shape.hole, -1)
+  }
+
+  const { fg, bg } = style
+  const pixels = new Uint8Array(width * height * 4)
+  for (let i = 0; i < coverage.length; i++) {
+    const a = Math.min(1, Math.max(0, coverage[i]))
+    const idx = i * 4
+    if (bg) {
+      pixels[idx] = Math.round(bg.r + (fg.r - bg.r) * a)
+      pixels[idx + 1] = Math.round(bg.g + (fg.g - bg.g) * a)
+      pixels[idx + 2] = Math.round(bg.b + (fg.b - bg.b) * a)
+      pixels[idx + 3] = 255
+    } else {
+      pixels[idx] = fg.r
+      pixels[idx + 1] = fg.g
+      pixels[idx + 2] = fg.b
+      pixels[idx + 3] = Math.round(a * 255)
+    }
+  }
+
+  return pixels
+}
+
+/**
+ * Draw QR shapes (module units) into an RGBA pixel buffer of `side` x `side` pixels.
+ * Returns the buffer and its side length.
+ */
+export function rasterizeQR(shapes: QRShape[], moduleCount: number, layout: RasterLayout, style: QRStyle): { pixels: Uint8Array; side: number } {
+  const side = layout.cellSize * moduleCount + layout.margin * 2
+  const pixelShapes = shapes.map((shape) => ({ ...toPixels(shape, layout), hole: shape.hole && toPixels(shape.hole, layout) }))
+  return { pixels: paintShapes(pixelShapes, side, side, style), side }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// SVG
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const num = (n: number) => String(Math.round(n * 1000) / 1000)
+
+/**
+ * SVG path data for one shape (clockwise, starting after the top-left corner).
+ */
+export function shapePath(s: QRShape, offset: number): string {
+  const x = s.x + offset
+  const y = s.y + offset
+  const [tl, tr, br, bl] = s.radii
+  const arc = (r: number, ex: number, ey: number) => (r > 0 ? `A${num(r)} ${num(r)} 0 0 1 ${num(ex)} ${num(ey)}` : '')
+
+  return (
+    `M${num(x + tl)} ${num(y)}` +
+    `H${num(x + s.w - tr)}${arc(tr, x + s.w, y + tr)}` +
+    `V${num(y + s.h - br)}${arc(br, x + s.w - br, y + s.h)}` +
+    `H${num(x + bl)}${arc(bl, x, y + s.h - bl)}` +
+    `V${num(y + tl)}${arc(tl, x + tl, y)}Z`
+  )
+}
+
+/**
+ * Render shapes as an SVG document. One module is one viewBox unit and the
+ * quiet zone is `margin` modules on each side.
+ * Holes use the even-odd fill rule, so the whole code is a single path.
+ */
+export function renderQRSvg(shapes: QRShape[], moduleCount: number, margin: number, size: number, style: QRStyle): string {
+  const side = moduleCount + margin * 2
+  const d = shapes.map((s) => shapePath(s, margin) + (s.hole ? shapePath(s.hole, margin) : '')).join('')
+  const crisp = style.shape === 'square' && style.eye === 'square' ? ' shape-rendering="crispEdges"' : ''
+  const background = style.bg ? `<rect width="${side}" height="${side}" fill="${formatColor(style.bg)}"/>` : ''
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${side} ${side}"${crisp}>` +
+    background +
+    `<path fill="${formatColor(style.fg)}" fill-rule="evenodd" d="${d}"/>` +
+    `</svg>`
+  )
+}
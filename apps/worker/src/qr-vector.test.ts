@@ -0,0 +1,108 @@
+/**
+ * Tests for PDF and EPS QR output
+ * Run with: npx tsx qr-vector.test.ts
+ */
+
+import { inflateSync } from 'node:zlib'
+import { helveticaWidth, stringLiteral, renderQRPdf, renderQREps, POINTS_PER_MM, VectorOptions } from './qr-vector'
+import { DEFAULT_QR_STYLE, QRMatrix, qrShapes } from './qr-style'
+
+const literalCases: Array<{ input: string; expected: string; description: string }> = [
+  { input: 'gitly.sh/gh', expected: '(gitly.sh/gh)', description: 'Plain ASCII' },
+  { input: 'a (b) \\c', expected: '(a \\(b\\) \\\\c)', description: 'Parentheses and backslashes are escaped' },
+  { input: 'Café', expected: '(Caf\\351)', description: 'Latin-1 is written as octal' },
+  { input: 'Scan 📷', expected: '(Scan ?)', description: 'Other characters become ?' },
+]
+
+// A 21x21 matrix with a single dark module outside the finder patterns
+const qr: QRMatrix = { getModuleCount: () => 21, isDark: (row, col) => row === 10 && col === 10 }
+const shapes = qrShapes(qr, DEFAULT_QR_STYLE)
+
+/**
+ * Page content streams of a PDF, inflated (images are left out).
+ */
+function pageContent(pdfBytes: Uint8Array): string {
+  const pdf = new TextDecoder('latin1').decode(pdfBytes)
+  const streams: string[] = []
+  for (const match of pdf.matchAll(/<< \/Length (\d+) \/Filter \/FlateDecode >>\nstream\n/g)) {
+    const start = match.index! + match[0].length
+    streams.push(inflateSync(pdfBytes.subarray(start, start + Number(match[1]))).toString('latin1'))
+  }
+  return streams.join('\n')
+}
+
+function options(overrides: Partial<VectorOptions>): VectorOptions {
+  return { moduleCount: 21, margin: 2, widthPt: 25 * POINTS_PER_MM, style: DEFAULT_QR_STYLE, caption: null, title: 'gitly.sh/gh', ...overrides }
+}
+
+async function runTests() {
+  console.log('Running QR vector tests...\n')
+
+  let passed = 0
+  let failed = 0
+
+  const check = (ok: boolean, description: string, detail: string) => {
+    if (ok) {
+      console.log(`✓ ${description}`)
+      passed++
+    } else {
+      console.log(`✗ ${description}`)
+      console.log(`  ${detail}`)
+      failed++
+    }
+  }
+
+  for (const { input, expected, description } of literalCases) {
+    const actual = stringLiteral(input)
+    check(actual === expected, description, `Expected: ${expected}, Actual: ${actual}`)
+  }
+
+  check(Math.abs(helveticaWidth('Scan me') - 3.946) < 1e-9, 'Helvetica widths come from the font metrics', `Actual: ${helveticaWidth('Scan me')}`)
+
+  // PDF
+  const pdfBytes = await renderQRPdf(shapes, options({}))
+  const pdf = new TextDecoder('latin1').decode(pdfBytes)
+  check(pdf.startsWith('%PDF-1.4\n') && pdf.endsWith('%%EOF\n'), 'PDF header and trailer', pdf.slice(0, 20))
+  check(pdf.includes('/MediaBox [0 0 70.866 70.866]'), 'mm sizing sets the page size (25mm = 70.866pt)', pdf.match(/\/MediaBox[^\]]*\]/)?.[0] ?? 'no MediaBox')
+  check(pdf.includes('/Title (gitly.sh/gh)'), 'PDF has a title', '')
+  check(!pdf.includes('/Image'), 'No image object without a logo', '')
+
+  const offsets = [...pdf.matchAll(/^(\d{10}) 00000 n $/gm)].map((m) => Number(m[1]))
+  const objectsAt = offsets.every((offset, i) => pdf.startsWith(`${i + 1} 0 obj`, offset))
+  check(offsets.length === 6 && objectsAt, 'Cross-reference offsets point at their objects', `Offsets: ${offsets.join(', ')}`)
+  const startxref = Number(pdf.match(/startxref\n(\d+)/)?.[1])
+  check(pdf.startsWith('xref', startxref), 'startxref points at the xref table', `Actual: ${startxref}`)
+
+  // The data module is drawn at its position inside the quiet zone
+  check(pageContent(pdfBytes).includes('12 12 m 13 12 l 13 13 l 12 13 l 12 12 l h'), 'Modules are drawn in module units', pageContent(pdfBytes).slice(0, 200))
+
+  // Logo: a 2x1 half-transparent red image, flattened onto the white plate
+  const logo = { rgba: new Uint8Array([255, 0, 0, 128, 255, 0, 0, 255]), width: 2, height: 1, logoSize: 0.25 }
+  const withLogoBytes = await renderQRPdf(shapes, options({ logo }))
+  const withLogo = new TextDecoder('latin1').decode(withLogoBytes)
+  check(withLogo.includes('/Subtype /Image /Width 2 /Height 1') && withLogo.includes('/Filter /FlateDecode'), 'Logos are compressed image objects', '')
+  check(withLogo.includes('/XObject << /Im1 5 0 R >>') && pageContent(withLogoBytes).includes('/Im1 Do'), 'The page draws the logo', '')
+
+  const framedBytes = await renderQRPdf(shapes, options({ caption: 'Scan me' }))
+  const framed = new TextDecoder('latin1').decode(framedBytes)
+  check(pageContent(framedBytes).includes('(Scan me) Tj') && framed.includes('/MediaBox [0 0 87.874 99.213]'), 'Frames add to the page size and draw the caption', framed.match(/\/MediaBox[^\]]*\]/)?.[0] ?? '')
+
+  // EPS
+  const eps = renderQREps(shapes, options({ logo, caption: 'Scan me' }))
+  check(eps.startsWith('%!PS-Adobe-3.0 EPSF-3.0\n%%BoundingBox: 0 0 88 100\n'), 'EPS bounding box is rounded up', eps.slice(0, 60))
+  check(eps.includes('/Width 2 /Height 1') && eps.includes('\nff7f7fff0000>\n'), 'EPS logo is flattened ASCII hex', eps)
+  check(eps.includes('(Scan me) show') && eps.trimEnd().endsWith('%%EOF'), 'EPS draws the caption', '')
+  check(
+    eps.includes('%%EndComments\nsave 4 dict begin\n') && eps.endsWith('\nshowpage end restore\n%%EOF\n'),
+    'EPS definitions are local to the file',
+    eps.slice(-40)
+  )
+
+  console.log(`\n${passed} passed, ${failed} failed`)
+
+  if (failed > 0) {
+    process.exit(1)
+  }
+}
+
+runTests()
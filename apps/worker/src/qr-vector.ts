@@ -0,0 +1,360 @@
+/**
+ * PDF and EPS output for print
+ *
+ * Draws the same shapes as the PNG/SVG renderers (qr-style.ts) as vector paths.
+ * PDF content streams and PostScript share path operators, so one path writer
+ * serves both: EPS defines m/l/c/h as aliases for moveto/lineto/curveto/closepath.
+ *
+ * Drawing happens in module units with y pointing down (like SVG); a single
+ * transform at the top of the page scales modules to points and flips the axis.
+ * Logos are flattened onto their plate color, so neither format needs alpha.
+ * Captions use the built-in Helvetica font, so nothing has to be embedded.
+ *
+ * Kept free of Workers types so it can be unit tested with tsx.
+ */
+
+import { QRShape, QRStyle, RGB, num, logoPlacement } from './qr-style'
+import { frameLayout } from './qr-frame'
+
+export interface VectorLogo {
+  rgba: Uint8Array // Decoded logo pixels
+  width: number
+  height: number
+  logoSize: number // Fraction of the code covered, as for PNG/SVG
+}
+
+export interface VectorOptions {
+  moduleCount: number
+  margin: number // Quiet zone in modules
+  widthPt: number // Printed width of the code (quiet zone included) in points
+  style: QRStyle
+  logo?: VectorLogo
+  caption: string | null // Frame caption (null = no frame)
+  title: string
+}
+
+// Kappa: control point distance for a quarter circle drawn as a cubic Bézier
+const KAPPA = 0.5523
+
+// Helvetica advance widths (per 1000 units) for ASCII 32-126, from the standard AFM
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+]
+const HELVETICA_CAP_HEIGHT = 0.718
+
+export const POINTS_PER_MM = 72 / 25.4
+
+/**
+ * Width of text in Helvetica at font size 1. Characters outside ASCII use an average width.
+ */
+export function helveticaWidth(text: string): number {
+  let width = 0
+  for (const ch of text) {
+    const code = ch.charCodeAt(0)
+    width += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556
+  }
+  return width / 1000
+}
+
+/**
+ * A string literal for PDF or PostScript. Latin-1 text is written as octal
+ * escapes so the file stays ASCII; other characters become "?".
+ */
+export function stringLiteral(text: string): string {
+  let out = '('
+  for (const ch of text) {
+    const code = ch.charCodeAt(0)
+    if (ch === '(' || ch === ')' || ch === '\\') out += '\\' + ch
+    else if (code >= 32 && code <= 126) out += ch
+    else if (code >= 160 && code <= 255 && ch.length === 1) out += '\\' + code.toString(8)
+    else out += '?'
+  }
+  return out + ')'
+}
+
+/** Color operands for rg/setrgbcolor */
+export function rgbOperands(c: RGB): string {
+  return [c.r, c.g, c.b].map((v) => num(v / 255)).join(' ')
+}
+
+/**
+ * Path operators for one shape, offset by (dx, dy). Rounded corners are cubic curves.
+ */
+function shapeOps(s: QRShape, dx: number, dy: number): string {
+  const x = s.x + dx
+  const y = s.y + dy
+  const [tl, tr, br, bl] = s.radii
+  const k = 1 - KAPPA
+  const p = (...values: number[]) => values.map(num).join(' ')
+  const ops = [`${p(x + tl, y)} m`, `${p(x + s.w - tr, y)} l`]
+  if (tr > 0) ops.push(`${p(x + s.w - tr * k, y, x + s.w, y + tr * k, x + s.w, y + tr)} c`)
+  ops.push(`${p(x + s.w, y + s.h - br)} l`)
+  if (br > 0) ops.push(`${p(x + s.w, y + s.h - br * k, x + s.w - br * k, y + s.h, x + s.w - br, y + s.h)} c`)
+  ops.push(`${p(x + bl, y + s.h)} l`)
+  if (bl > 0) ops.push(`${p(x + bl * k, y + s.h, x, y + s.h - bl * k, x, y + s.h - bl)} c`)
+  ops.push(`${p(x, y + tl)} l`)
+  if (tl > 0) ops.push(`${p(x, y + tl * k, x + tl * k, y, x + tl, y)} c`)
+  ops.push('h')
+  return ops.join(' ')
+}
+
+/**
+ * Path operators for shapes in module units, offset by (dx, dy). Fill with f* (PDF) or eofill (EPS).
+ */
+export function pathOps(shapes: QRShape[], dx: number, dy: number): string {
+  return shapes.map((s) => shapeOps(s, dx, dy) + (s.hole ? ' ' + shapeOps(s.hole, dx, dy) : '')).join('\n')
+}
+
+/**
+ * Blend logo pixels onto the plate color and fit them (aspect ratio kept) into
+ * the logo's square, in module units.
+ */
+function flattenLogo(logo: VectorLogo, plate: RGB, moduleCount: number, offset: number) {
+  const rgb = new Uint8Array(logo.width * logo.height * 3)
+  for (let i = 0; i < logo.width * logo.height; i++) {
+    const a = logo.rgba[i * 4 + 3] / 255
+    rgb[i * 3] = Math.round(logo.rgba[i * 4] * a + plate.r * (1 - a))
+    rgb[i * 3 + 1] = Math.round(logo.rgba[i * 4 + 1] * a + plate.g * (1 - a))
+    rgb[i * 3 + 2] = Math.round(logo.rgba[i * 4 + 2] * a + plate.b * (1 - a))
+  }
+
+  const { plateStart, plateModules, logoStart, logoModules } = logoPlacement(moduleCount, logo.logoSize)
+  const fit = logoModules / Math.max(logo.width, logo.height)
+  const w = logo.width * fit
+  const h = logo.height * fit
+  return {
+    rgb,
+    plate: { x: offset + plateStart, y: offset + plateStart, size: plateModules },
+    box: { x: offset + logoStart + (logoModules - w) / 2, y: offset + logoStart + (logoModules - h) / 2, w, h },
+  }
+}
+
+/**
+ * Page geometry shared by PDF and EPS: everything in module units, plus the
+ * scale from modules to points.
+ */
+function pageLayout(options: VectorOptions) {
+  const codeSide = options.moduleCount + options.margin * 2
+  const scale = options.widthPt / codeSide
+  const frame = options.caption ? frameLayout(codeSide, 1, options.caption) : null
+
+  const width = frame ? frame.width : codeSide
+  const height = frame ? frame.height : codeSide
+
+  let caption: { text: string; x: number; baseline: number; fontSize: number } | null = null
+  if (frame && options.caption) {
+    // Helvetica metrics are known exactly, so fit the caption to its real width
+    const fontSize = Math.min(frame.fontSize, frame.maxCaptionWidth / helveticaWidth(options.caption))
+    caption = {
+      text: options.caption,
+      x: frame.captionX - (helveticaWidth(options.caption) * fontSize) / 2,
+      baseline: frame.captionY + (HELVETICA_CAP_HEIGHT * fontSize) / 2,
+      fontSize,
+    }
+  }
+
+  const plateColor = options.style.bg ?? { r: 255, g: 255, b: 255 }
+  const offset = (frame ? frame.codeX : 0) + options.margin // Top-left module (x and y)
+  const logo = options.logo ? flattenLogo(options.logo, plateColor, options.moduleCount, offset) : null
+
+  return { width, height, scale, offset, frame, caption, plateColor, logo }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// PDF
+// ─────────────────────────────────────────────────────────────────────────────
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+/**
+ * Render a single-page PDF sized to the code (and frame). The logo is a
+ * Flate-compressed RGB image.
+ */
+export async function renderQRPdf(shapes: QRShape[], options: VectorOptions): Promise<Uint8Array> {
+  const page = pageLayout(options)
+  const { style } = options
+
+  const content: string[] = [
+    // Modules to points, y down
+    `${page.scale.toFixed(5)} 0 0 ${(-page.scale).toFixed(5)} 0 ${num(page.height * page.scale)} cm`,
+  ]
+  if (style.bg) {
+    content.push(`${rgbOperands(style.bg)} rg 0 0 ${num(page.width)} ${num(page.height)} re f`)
+  }
+  content.push(`${rgbOperands(style.fg)} rg`)
+  if (page.frame) {
+    content.push(pathOps([page.frame.border], 0, 0), 'f*')
+  }
+  content.push(pathOps(shapes, page.offset, page.offset), 'f*')
+  if (page.logo) {
+    const { plate, box } = page.logo
+    content.push(
+      `${rgbOperands(page.plateColor)} rg ${num(plate.x)} ${num(plate.y)} ${plate.size} ${plate.size} re f`,
+      // Image space is a unit square with its first row at the top: flip it back
+      `q ${num(box.w)} 0 0 ${num(-box.h)} ${num(box.x)} ${num(box.y + box.h)} cm /Im1 Do Q`
+    )
+  }
+  if (page.caption) {
+    const { text, x, baseline, fontSize } = page.caption
+    content.push(`BT /F1 ${num(fontSize)} Tf 1 0 0 -1 ${num(x)} ${num(baseline)} Tm ${rgbOperands(style.fg)} rg ${stringLiteral(text)} Tj ET`)
+  }
+
+  return writePdf(
+    [content.join('\n')],
+    page.width * page.scale,
+    page.height * page.scale,
+    options.title,
+    page.logo && options.logo ? { rgb: page.logo.rgb, width: options.logo.width, height: options.logo.height } : undefined
+  )
+}
+
+export interface PdfImage {
+  rgb: Uint8Array // 8-bit RGB pixels, first row at the top
+  width: number
+  height: number
+}
+
+/**
+ * Assemble a PDF from one content stream per page (all pages the same size, in
+ * points); streams are Flate-compressed. Content can use /F1 (Helvetica, WinAnsi) and, when an image is
+ * given, /Im1.
+ */
+export async function writePdf(pages: string[], widthPt: number, heightPt: number, title: string, image?: PdfImage): Promise<Uint8Array> {
+  const encoder = new TextEncoder()
+  const objects: Uint8Array[][] = []
+  const add = (...parts: Array<string | Uint8Array>) => {
+    objects.push(parts.map((part) => (typeof part === 'string' ? encoder.encode(part) : part)))
+    return objects.length
+  }
+
+  // Fixed objects first; each page is then a page object followed by its content stream
+  const firstPage = image ? 6 : 5
+  const kids = pages.map((_, i) => `${firstPage + i * 2} 0 R`).join(' ')
+  add('<< /Type /Catalog /Pages 2 0 R >>')
+  add(`<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>`)
+  add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>')
+  add(`<< /Title ${stringLiteral(title)} /Producer (gitly.sh) >>`)
+  if (image) {
+    const data = await deflate(image.rgb)
+    add(
+      `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /FlateDecode /Length ${data.length} >>\nstream\n`,
+      data,
+      '\nendstream'
+    )
+  }
+  for (const content of pages) {
+    const stream = await deflate(encoder.encode(content))
+    add(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(widthPt)} ${num(heightPt)}] /Contents ${objects.length + 2} 0 R ` +
+        `/Resources << /Font << /F1 3 0 R >>${image ? ' /XObject << /Im1 5 0 R >>' : ''} >> >>`
+    )
+    add(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, stream, '\nendstream')
+  }
+
+  // Assemble with byte offsets for the cross-reference table
+  const chunks: Uint8Array[] = [encoder.encode('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n')]
+  let length = chunks[0].length
+  const offsets: number[] = []
+  objects.forEach((parts, i) => {
+    offsets.push(length)
+    for (const part of [encoder.encode(`${i + 1} 0 obj\n`), ...parts, encoder.encode('\nendobj\n')]) {
+      chunks.push(part)
+      length += part.length
+    }
+  })
+
+  const xref =
+    `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+    offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('') +
+    `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 4 0 R >>\nstartxref\n${length}\n%%EOF\n`
+  chunks.push(encoder.encode(xref))
+
+  const pdf = new Uint8Array(length + chunks[chunks.length - 1].length)
+  let position = 0
+  for (const chunk of chunks) {
+    pdf.set(chunk, position)
+    position += chunk.length
+  }
+  return pdf
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// EPS
+// ─────────────────────────────────────────────────────────────────────────────
+
+function hexLines(bytes: Uint8Array): string {
+  const lines: string[] = []
+  for (let i = 0; i < bytes.length; i += 36) {
+    lines.push(Array.from(bytes.subarray(i, i + 36), (b) => b.toString(16).padStart(2, '0')).join(''))
+  }
+  return lines.join('\n')
+}
+
+/**
+ * Render an EPS (PostScript level 2) file sized to the code (and frame).
+ * The logo is an ASCII hex image, which every print workflow accepts.
+ */
+export function renderQREps(shapes: QRShape[], options: VectorOptions): string {
+  const page = pageLayout(options)
+  const { style } = options
+  const widthPt = page.width * page.scale
+  const heightPt = page.height * page.scale
+
+  const lines = [
+    '%!PS-Adobe-3.0 EPSF-3.0',
+    `%%BoundingBox: 0 0 ${Math.ceil(widthPt)} ${Math.ceil(heightPt)}`,
+    `%%HiResBoundingBox: 0 0 ${num(widthPt)} ${num(heightPt)}`,
+    `%%Title: ${options.title}`,
+    '%%Creator: gitly.sh',
+    '%%LanguageLevel: 2',
+    '%%Pages: 1',
+    '%%EndComments',
+    // Keep our definitions (and the Latin-1 font) out of a document that places the EPS
+    'save 4 dict begin',
+    '/m {moveto} bind def /l {lineto} bind def /c {curveto} bind def /h {closepath} bind def',
+    // Modules to points, y down
+    `0 ${num(heightPt)} translate ${page.scale.toFixed(5)} ${(-page.scale).toFixed(5)} scale`,
+  ]
+  if (style.bg) {
+    lines.push(`${rgbOperands(style.bg)} setrgbcolor 0 0 ${num(page.width)} ${num(page.height)} rectfill`)
+  }
+  lines.push(`${rgbOperands(style.fg)} setrgbcolor`)
+  if (page.frame) {
+    lines.push('newpath', pathOps([page.frame.border], 0, 0), 'eofill')
+  }
+  lines.push('newpath', pathOps(shapes, page.offset, page.offset), 'eofill')
+  if (page.logo && options.logo) {
+    const { plate, box, rgb } = page.logo
+    const { width, height } = options.logo
+    lines.push(
+      `${rgbOperands(page.plateColor)} setrgbcolor ${num(plate.x)} ${num(plate.y)} ${plate.size} ${plate.size} rectfill`,
+      `gsave ${num(box.x)} ${num(box.y + box.h)} translate ${num(box.w)} ${num(-box.h)} scale /DeviceRGB setcolorspace`,
+      `<< /ImageType 1 /Width ${width} /Height ${height} /BitsPerComponent 8 /Decode [0 1 0 1 0 1] ` +
+        `/ImageMatrix [${width} 0 0 ${-height} 0 ${height}] /DataSource currentfile /ASCIIHexDecode filter >> image`,
+      hexLines(rgb) + '>',
+      'grestore'
+    )
+  }
+  if (page.caption) {
+    const { text, x, baseline, fontSize } = page.caption
+    lines.push(
+      // Helvetica with Latin-1 encoding, to match the PDF's WinAnsi text
+      '/Helvetica findfont dup length dict begin { 1 index /FID ne { def } { pop pop } ifelse } forall',
+      '/Encoding ISOLatin1Encoding def currentdict end /Helvetica-Latin1 exch definefont pop',
+      `/Helvetica-Latin1 findfont ${num(fontSize)} scalefont setfont ${rgbOperands(style.fg)} setrgbcolor`,
+      `${num(x)} ${num(baseline)} moveto gsave 1 -1 scale ${stringLiteral(text)} show grestore`
+    )
+  }
+  lines.push('showpage end restore', '%%EOF', '')
+
+  return lines.join('\n')
+}
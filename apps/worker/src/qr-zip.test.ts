@@ -0,0 +1,137 @@
+/**
+ * Tests for the bulk QR export: subrequests per page, paging and Cache API reuse
+ * Run with: npx tsx qr-zip.test.ts
+ */
+
+import { Hono } from 'hono'
+import { handleQRZip } from './qr-zip'
+import { handleQR } from './qr'
+import { EXPORT_PAGE_SIZE } from './qr-export'
+
+// Subrequests (fetch and Cache API calls) one Worker invocation may make on the free plan (ADR-001)
+const SUBREQUEST_LIMIT = 50
+
+// 1x1 PNG, served as the user's logo.png
+const LOGO = Uint8Array.from(atob('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg=='), (ch) => ch.charCodeAt(0))
+
+const calls = { fetch: 0, match: 0, put: 0 }
+const cache = new Map<string, Response>()
+const pending: Promise<unknown>[] = []
+
+globalThis.fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+  calls.fetch++
+  const url = String(input instanceof Request ? input.url : input)
+  if (url.endsWith('/logo.png')) {
+    return new Response(init?.method === 'HEAD' ? null : LOGO, { status: 200, headers: { 'Content-Type': 'image/png' } })
+  }
+  return new Response('Not Found', { status: 404 })
+}
+
+;(globalThis as any).caches = {
+  default: {
+    match: async (request: Request) => {
+      calls.match++
+      return cache.get(request.url)?.clone()
+    },
+    put: async (request: Request, response: Response) => {
+      calls.put++
+      cache.set(request.url, response)
+    },
+  },
+}
+
+function userLinks(count: number) {
+  return Array.from({ length: count }, (_, i) => ({ slug: `link-${i}`, url: `https://example.com/${i}`, expires_at: null, password_protected: 0 }))
+}
+
+const env = {
+  DB: {
+    prepare: () => ({ bind: () => ({ all: async () => ({ results: userLinks(EXPORT_PAGE_SIZE + 5) }) }) }),
+  },
+  LINKS: {
+    get: async () => JSON.stringify({ url: 'https://example.com/0', createdAt: 0, createdBy: 'alice' }),
+  },
+  QR_RATE_LIMITER: { limit: async () => ({ success: true }) },
+}
+
+const app = new Hono()
+app.get('/:username{@[a-zA-Z0-9_-]+}/qr.zip', (c) => handleQRZip(c, c.req.param('username').slice(1)))
+app.get('/:slug/qr', handleQR)
+
+/** Request a path, wait for its body and background work, and report the calls it made */
+async function run(path: string) {
+  calls.fetch = calls.match = calls.put = 0
+  const response = await app.fetch(new Request(`https://gitly.sh${path}`), env, {
+    waitUntil: (promise: Promise<unknown>) => pending.push(promise),
+    passThroughOnException: () => {},
+  } as any)
+  const body = new Uint8Array(await response.arrayBuffer())
+  await Promise.all(pending.splice(0))
+  return { response, body, ...calls }
+}
+
+/** Number of files in a ZIP, from its end of central directory record */
+function zipEntries(zip: Uint8Array): number {
+  return new DataView(zip.buffer, zip.byteOffset, zip.byteLength).getUint16(zip.length - 22 + 10, true)
+}
+
+async function runTests() {
+  console.log('Running QR export tests...\n')
+
+  let passed = 0
+  let failed = 0
+
+  const check = (ok: boolean, description: string, detail: string) => {
+    if (ok) {
+      console.log(`✓ ${description}`)
+      passed++
+    } else {
+      console.log(`✗ ${description}`)
+      console.log(`  ${detail}`)
+      failed++
+    }
+  }
+
+  const log = console.log
+  console.log = () => {} // QR generation logs every step
+
+  const cold = await run('/@alice/qr.zip')
+  const warm = await run('/@alice/qr.zip')
+  const single = await run('/link-0/qr')
+  const lastPage = await run('/@alice/qr.zip?page=2')
+  const pastEnd = await run('/@alice/qr.zip?page=3')
+  const badPage = await run('/@alice/qr.zip?page=0')
+
+  console.log = log
+
+  const coldSubrequests = cold.fetch + cold.match + cold.put
+  check(
+    coldSubrequests <= SUBREQUEST_LIMIT,
+    'A full page with nothing cached fits the subrequest limit',
+    `${cold.fetch} fetches, ${cold.match} cache reads, ${cold.put} cache writes (limit ${SUBREQUEST_LIMIT})`
+  )
+  check(cold.fetch === 3, 'Style and logo are fetched once per export', `${cold.fetch} fetches`)
+  check(
+    cold.response.status === 200 && zipEntries(cold.body) === EXPORT_PAGE_SIZE + 1,
+    'First page has a code per link and the manifest',
+    `${cold.response.status}, ${zipEntries(cold.body)} files`
+  )
+  check(cold.response.headers.get('Link') === '</@alice/qr.zip?page=2>; rel="next"', 'Link header points to the next page', String(cold.response.headers.get('Link')))
+  check(cold.response.headers.get('Content-Disposition') === 'attachment; filename="alice-qr-1.zip"', 'File name has the page', String(cold.response.headers.get('Content-Disposition')))
+
+  check(warm.put === 0 && warm.match === EXPORT_PAGE_SIZE, 'Repeat exports are served from the Cache API', `${warm.match} cache reads, ${warm.put} cache writes`)
+  check(single.put === 0 && single.match === 1 && single.response.status === 200, '/:slug/qr reuses the exported code', `${single.match} cache reads, ${single.put} cache writes`)
+
+  check(lastPage.response.status === 200 && zipEntries(lastPage.body) === 5 + 1, 'Last page has the remaining links', `${lastPage.response.status}, ${zipEntries(lastPage.body)} files`)
+  check(lastPage.response.headers.get('Link') === null, 'Last page has no next link', String(lastPage.response.headers.get('Link')))
+  check(pastEnd.response.status === 404, 'Pages past the end are 404', String(pastEnd.response.status))
+  check(badPage.response.status === 400 && badPage.fetch === 0, 'Invalid pages are rejected before any subrequest', `${badPage.response.status}, ${badPage.fetch} fetches`)
+
+  console.log(`\n${passed} passed, ${failed} failed`)
+
+  if (failed > 0) {
+    process.exit(1)
+  }
+}
+
+runTests()
@@ -0,0 +1,158 @@
+import { Context } from 'hono'
+import { resolveQRRequest, renderLinkQR } from './qr'
+import { createZipWriter } from './zip'
+import { EXPORT_PAGE_SIZE, ManifestRow, parseExportPage, exportPageCount, buildManifest, zipFileName } from './qr-export'
+import { isExpired, publicUrl, HIDDEN_DESTINATION } from './link-data'
+import { RateLimitBinding, getClientIP, compositeKey } from './rate-limit'
+
+/**
+ * Bulk QR export: GET /@username/qr.zip
+ *
+ * Every active link a user owns as a QR code, in ZIPs of EXPORT_PAGE_SIZE
+ * links (newest first, ?page=2 and on for the rest) with a manifest.csv. A
+ * Link header points to the next page. Codes are rendered with this request's
+ * query string (format, size, style, frame...) and share /:slug/qr's Cache API
+ * entries, so they are identical to the single codes and repeat exports are
+ * cheap. The user's style and logo are looked up once per export. Each code
+ * also counts against the same QR_RATE_LIMITER key as /:slug/qr, so an export
+ * can't be used to get around the per-link limit.
+ *
+ * The archive is streamed: one code is generated each time the client reads,
+ * so memory stays flat however many links there are.
+ */
+
+// File extensions by QR response Content-Type
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/svg+xml': 'svg',
+  'application/pdf': 'pdf',
+  'application/postscript': 'eps',
+}
+
+interface UserLink {
+  slug: string
+  url: string
+  expires_at: number | null
+  password_protected: number
+}
+
+/** A link's manifest columns */
+function manifestLink(link: UserLink): Pick<ManifestRow, 'slug' | 'url'> {
+  return { slug: link.slug, url: publicUrl(link) ?? HIDDEN_DESTINATION }
+}
+
+/**
+ * Why a QR response failed, from its JSON error body when there is one.
+ */
+async function failureStatus(response: Response): Promise<string> {
+  try {
+    const body = await response.json<{ error?: string }>()
+    if (body.error) return body.error
+  } catch {
+    // Not JSON
+  }
+  return `HTTP ${response.status}`
+}
+
+export async function handleQRZip(c: Context, username: string): Promise<Response> {
+  const page = parseExportPage(c.req.query('page'))
+  if (page === null) {
+    return c.json({ error: 'Invalid page', message: 'page must be a positive whole number' }, 400)
+  }
+
+  // Invalid options would fail every code the same way: answer 400 rather than a ZIP of errors
+  const request = await resolveQRRequest(c, username)
+  if ('error' in request) {
+    return c.json({ error: 'Invalid QR options', details: request.error }, 400)
+  }
+
+  const db: D1Database = c.env.DB
+  let links: UserLink[]
+  try {
+    const result = await db.prepare(`
+      SELECT slug, url, expires_at, password_protected
+      FROM links
+      WHERE created_by = ?1 AND deleted_at IS NULL
+      ORDER BY created_at DESC
+    `).bind(username).all<UserLink>()
+    // Expired links no longer redirect, so their codes would be useless
+    links = (result.results || []).filter((link) => !isExpired(link.expires_at))
+  } catch (error) {
+    console.error('QR export query failed:', error)
+    return c.text('Internal Server Error', 500)
+  }
+
+  if (links.length === 0) {
+    return c.json({ error: 'No links found', message: `@${username} has no active links` }, 404)
+  }
+  const pageCount = exportPageCount(links.length)
+  if (page > pageCount) {
+    return c.json({ error: 'No such page', message: `@${username}'s export has ${pageCount} page${pageCount !== 1 ? 's' : ''}` }, 404)
+  }
+
+  const zip = createZipWriter()
+  const manifest: ManifestRow[] = []
+  const usedNames = new Set<string>()
+  const ip = getClientIP(c)
+  const queue = links.slice((page - 1) * EXPORT_PAGE_SIZE, page * EXPORT_PAGE_SIZE)
+
+  /** Add one link's code to the archive; null (and a manifest row saying why) when it has none */
+  const exportLink = async (link: UserLink): Promise<Uint8Array | null> => {
+    const limiter: RateLimitBinding | undefined = c.env.QR_RATE_LIMITER
+    if (limiter?.limit && !(await limiter.limit({ key: compositeKey(ip, link.slug) })).success) {
+      manifest.push({ ...manifestLink(link), file: '', status: 'Rate limited, try again shortly' })
+      return null
+    }
+
+    const response = await renderLinkQR(c, link.slug, request)
+    if (!response.ok) {
+      manifest.push({ ...manifestLink(link), file: '', status: await failureStatus(response) })
+      return null
+    }
+
+    const extension = EXTENSIONS[response.headers.get('content-type')?.split(';')[0]?.trim() ?? ''] ?? 'bin'
+    let file = zipFileName(link.slug, extension)
+    for (let n = 2; usedNames.has(file); n++) {
+      file = zipFileName(`${link.slug}-${n}`, extension)
+    }
+    usedNames.add(file)
+
+    manifest.push({ ...manifestLink(link), file, status: 'ok' })
+    return zip.add(file, new Uint8Array(await response.arrayBuffer()))
+  }
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        // Links without a code only add a manifest row, so keep going until there's something to send
+        for (let link = queue.shift(); link; link = queue.shift()) {
+          const entry = await exportLink(link)
+          if (entry) {
+            controller.enqueue(entry)
+            return
+          }
+        }
+
+        controller.enqueue(await zip.add('manifest.csv', new TextEncoder().encode(buildManifest(manifest))))
+        controller.enqueue(zip.finish())
+        controller.close()
+      } catch (error) {
+        // Headers are already sent; erroring the stream truncates the archive so clients notice
+        console.error('QR export stream failed:', error)
+        controller.error(error)
+      }
+    },
+  })
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/zip',
+    'Content-Disposition': `attachment; filename="${username}-qr${pageCount > 1 ? `-${page}` : ''}.zip"`,
+    'Cache-Control': 'no-store',
+  }
+  if (page < pageCount) {
+    const next = new URL(c.req.url)
+    next.searchParams.set('page', String(page + 1))
+    headers['Link'] = `<${next.pathname}${next.search}>; rel="next"`
+  }
+  return new Response(body, { status: 200, headers })
+}
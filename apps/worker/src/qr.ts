@@ -1,8 +1,12 @@
 import { Context } from 'hono'
-import * as QRCode from 'qrcode'
 import qrGenerator from 'qrcode-generator'
-import { PhotonImage, SamplingFilter, resize, watermark } from '@cf-wasm/photon/workerd'
+import { PhotonImage, SamplingFilter, resize, watermark, draw_text } from '@cf-wasm/photon'
 import { validateUrlForFetch, safeFetch } from './url-validator'
+import { LinkData, parseLinkData, isExpired } from './link-data'
+import { QR_SCAN_PARAM } from './redirect'
+import { QRStyle, QRMatrix, RGB, DEFAULT_QR_STYLE, parseQRStyle, formatColor, qrShapes, rasterizeQR, renderQRSvg, logoPlacement } from './qr-style'
+import { CaptionMask, parseFrame, frameLayout, frameSvg, framePixels } from './qr-frame'
+import { VectorLogo, POINTS_PER_MM, renderQRPdf, renderQREps } from './qr-vector'
 
 // Maximum logo file size (2MB) - prevents DoS via oversized image URLs
 const MAX_LOGO_SIZE = 2 * 1024 * 1024
@@ -10,6 +14,12 @@ const MAX_LOGO_SIZE = 2 * 1024 * 1024
 // Timeout for logo fetch requests (5 seconds) - prevents slow servers from tying up Worker execution
 const LOGO_FETCH_TIMEOUT = 5000
 
+// How long a user's qr.json is cached at the edge (5 minutes), so every QR request doesn't go to GitHub
+const QR_STYLE_CACHE_TTL = 300
+
+// Longest side of logos embedded in PDF/EPS (well over 600 DPI at typical print sizes)
+const VECTOR_LOGO_MAX_PX = 300
+
 // Allowed image Content-Type values for logo uploads
 const ALLOWED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/vnd.microsoft.icon', 'image/x-icon'] as const
 
@@ -77,36 +87,75 @@ async function fetchLogoWithSizeLimit(logoUrl: string): Promise<Response> {
   return response
 }
 
-type Bindings = {
-  LINKS: KVNamespace
+/** A logo downloaded and checked once, then drawn into any number of codes */
+interface LogoImage {
+  bytes: Uint8Array
+  contentType: string
+}
+
+/**
+ * Download a logo (fetchLogoWithSizeLimit), then check its actual size and file signature.
+ */
+async function fetchLogo(logoUrl: string): Promise<LogoImage> {
+  const response = await fetchLogoWithSizeLimit(logoUrl)
+  const contentType = response.headers.get('content-type')?.split(';')[0]?.trim() ?? ''
+  const buffer = await response.arrayBuffer()
+
+  // Verify actual size after download (Content-Length can be spoofed or missing)
+  if (buffer.byteLength > MAX_LOGO_SIZE) {
+    throw new Error(`Logo exceeds maximum size: ${buffer.byteLength} bytes (max ${MAX_LOGO_SIZE})`)
+  }
+
+  // Defense-in-depth: Validate magic bytes match the declared content-type
+  const bytes = new Uint8Array(buffer)
+  if (!validateImageMagicBytes(bytes, contentType)) {
+    throw new Error(`Logo file signature does not match content-type: ${contentType}`)
+  }
+
+  return { bytes, contentType }
 }
 
-interface LinkData {
-  url: string
-  createdAt: number
-  createdBy: string
+type Bindings = {
+  LINKS: KVNamespace
 }
 
 interface QROptions {
   size: number
-  format: 'png' | 'svg'
+  format: 'png' | 'svg' | 'pdf' | 'eps'
+  widthPt: number // Printed width of PDF/EPS codes in points (from mm, or size at dpi)
   logo?: string
   logoSize: number
   autoLogo: boolean // Whether to try fetching user's logo.png from GitHub
+  style: QRStyle // Colors, module shape and eye style (user's qr.json, then query params)
+  frameCaption: string | null // Caption under a framed code (null = no frame)
 }
 
 // GitHub raw content URL for user logos
 const GITHUB_LOGO_BASE = 'https://raw.githubusercontent.com/andrewmurphyio/gitly.sh/main/links'
 
-function parseOptions(c: Context): QROptions {
+function parseOptions(c: Context, slug: string, userStyle: QRStyle): QROptions | { error: string } {
   const size = Math.min(1024, Math.max(64, parseInt(c.req.query('size') || '256', 10)))
-  const format = c.req.query('format') === 'svg' ? 'svg' : 'png'
+  const formatParam = c.req.query('format')
+  const format = formatParam === 'svg' || formatParam === 'pdf' || formatParam === 'eps' ? formatParam : 'png'
+  // Physical size for print formats: mm wins; otherwise size pixels at dpi (96 = CSS pixels)
+  const mm = parseFloat(c.req.query('mm') || '')
+  const dpi = Math.min(2400, Math.max(72, parseInt(c.req.query('dpi') || '96', 10) || 96))
+  const widthPt = isNaN(mm) ? (size / dpi) * 72 : Math.min(1000, Math.max(10, mm)) * POINTS_PER_MM
   const logo = c.req.query('logo')
   const logoSize = Math.min(0.35, Math.max(0.15, parseFloat(c.req.query('logo_size') || '0.25')))
   // autoLogo is true when no explicit logo param is provided
   const autoLogo = logo === undefined
 
-  return { size, format, logo, logoSize, autoLogo }
+  const style = parseQRStyle(c.req.query(), userStyle)
+  if ('error' in style) {
+    return style
+  }
+  const frameCaption = parseFrame(c.req.query(), slug)
+  if (typeof frameCaption === 'object' && frameCaption !== null) {
+    return frameCaption
+  }
+
+  return { size, format, widthPt, logo, logoSize, autoLogo, style, frameCaption }
 }
 
 /**
@@ -135,16 +184,61 @@ async function tryGetUserLogo(username: string): Promise<string | undefined> {
   return undefined
 }
 
+/**
+ * Load a user's default QR style from qr.json in their GitHub folder
+ * (same keys as the query params: fg, bg, shape, eye).
+ * Falls back to the default style if the file is missing, invalid or slow.
+ * Responses are cached at the edge for QR_STYLE_CACHE_TTL, so /:slug/qr,
+ * label sheets and ZIP exports share one copy.
+ */
+export async function tryGetUserQRStyle(username: string): Promise<QRStyle> {
+  if (!username || username === 'unknown') return DEFAULT_QR_STYLE
+
+  try {
+    const response = await fetch(`${GITHUB_LOGO_BASE}/${username}/qr.json`, {
+      headers: { 'User-Agent': 'gitly.sh-worker/1.0' },
+      signal: AbortSignal.timeout(LOGO_FETCH_TIMEOUT),
+      // Missing files are cached too; GitHub errors are retried on the next request
+      cf: { cacheTtlByStatus: { '200-299': QR_STYLE_CACHE_TTL, '404': QR_STYLE_CACHE_TTL, '500-599': 0 } },
+    })
+    if (!response.ok) return DEFAULT_QR_STYLE
+
+    const style = parseQRStyle(await response.json())
+    if ('error' in style) {
+      console.warn(`[QR] Ignoring invalid qr.json for ${username}: ${style.error}`)
+      return DEFAULT_QR_STYLE
+    }
+    return style
+  } catch {
+    // Silently fail - default style is used
+    return DEFAULT_QR_STYLE
+  }
+}
+
 /**
  * Build a normalized cache key URL that includes all query params affecting QR output.
  * This ensures different parameter combinations are cached separately.
  */
 function buildCacheKey(c: Context, slug: string, options: QROptions, resolvedLogo?: string): string {
   // Normalize the URL to ensure consistent cache keys
-  // Include only params that affect output (size, format, logo, logo_size)
+  // Include only params that affect output (size, format, style, logo, logo_size)
   const cacheUrl = new URL(`https://gitly.sh/${slug}/qr`)
+  // Bump when the output changes for the same params
+  // (v2: short URL carries the ?qr scan marker; v3: SVG drawn from the same matrix as PNG)
+  cacheUrl.searchParams.set('v', '3')
   cacheUrl.searchParams.set('size', String(options.size))
   cacheUrl.searchParams.set('format', options.format)
+  if (options.format === 'pdf' || options.format === 'eps') {
+    cacheUrl.searchParams.set('width_pt', options.widthPt.toFixed(2))
+  }
+  // Resolved style (user defaults + query params), so both sources vary the key
+  cacheUrl.searchParams.set('fg', formatColor(options.style.fg))
+  cacheUrl.searchParams.set('bg', options.style.bg ? formatColor(options.style.bg) : 'transparent')
+  cacheUrl.searchParams.set('shape', options.style.shape)
+  cacheUrl.searchParams.set('eye', options.style.eye)
+  if (options.frameCaption) {
+    cacheUrl.searchParams.set('caption', options.frameCaption)
+  }
   // Use resolved logo (could be from query param or auto-detected)
   if (resolvedLogo) {
     cacheUrl.searchParams.set('logo', resolvedLogo)
@@ -156,8 +250,63 @@ function buildCacheKey(c: Context, slug: string, options: QROptions, resolvedLog
   return cacheUrl.toString()
 }
 
+/** Short URL encoded in a link's QR code; ?qr lets the redirect record the visit as a scan (channel = 'qr') */
+function qrTargetUrl(slug: string): string {
+  return `https://gitly.sh/${slug}?${QR_SCAN_PARAM}`
+}
+
+/**
+ * Module matrix for a link's QR code. Every output (PNG, SVG, PDF, EPS and
+ * label sheets) is drawn from it.
+ */
+export function qrMatrix(slug: string, errorCorrectionLevel: 'M' | 'H'): QRMatrix {
+  const qr = qrGenerator(0, errorCorrectionLevel) // Type 0 = auto-detect version
+  qr.addData(qrTargetUrl(slug))
+  qr.make()
+  return qr
+}
+
+/**
+ * A request's QR settings for one owner's links: their qr.json style and the
+ * logo to draw (?logo=, or their logo.png). Resolved once per request, so a
+ * bulk export looks these up once rather than once per code.
+ */
+export interface QRRequest {
+  userStyle: QRStyle
+  logoUrl?: string
+  loadLogo: () => Promise<LogoImage> // Downloads the logo on first use, then reuses it
+}
+
+/**
+ * Look up a user's QR style and logo for this request's query string.
+ * Returns the error /:slug/qr would give (400) when the options are invalid.
+ */
+export async function resolveQRRequest(c: Context, username: string): Promise<QRRequest | { error: string }> {
+  const userStyle = await tryGetUserQRStyle(username)
+  const parsed = parseOptions(c, '', userStyle)
+  if ('error' in parsed) {
+    return parsed
+  }
+
+  // Explicit logo param wins; otherwise try the user's logo.png
+  const logoUrl = parsed.autoLogo ? await tryGetUserLogo(username) : parsed.logo
+  let logo: Promise<LogoImage> | undefined
+  return {
+    userStyle,
+    logoUrl,
+    loadLogo: () => (logo ??= fetchLogo(logoUrl ?? '')),
+  }
+}
+
 export async function handleQR(c: Context<{ Bindings: Bindings }>) {
-  const slug = c.req.param('slug')
+  return generateQR(c, c.req.param('slug'))
+}
+
+/**
+ * QR code response for one link, with options from the request's query string.
+ * Served from the Cache API when the same code was generated before.
+ */
+export async function generateQR(c: Context, slug: string): Promise<Response> {
   const requestId = crypto.randomUUID().slice(0, 8) // Short ID for log correlation
   
   console.log(`[QR:${requestId}] Starting QR generation for slug: ${slug}`)
@@ -170,31 +319,42 @@ export async function handleQR(c: Context<{ Bindings: Bindings }>) {
   }
 
   // Parse link data to get username for auto-logo
-  let linkData: LinkData
-  try {
-    linkData = JSON.parse(linkDataRaw)
-    console.log(`[QR:${requestId}] Link data parsed: createdBy=${linkData.createdBy}`)
-  } catch (parseError) {
-    // Legacy format: raw URL string
-    console.log(`[QR:${requestId}] Legacy link format detected, using raw URL`)
-    linkData = { url: linkDataRaw, createdAt: 0, createdBy: 'unknown' }
+  const linkData: LinkData = parseLinkData(linkDataRaw)
+  console.log(`[QR:${requestId}] Link data parsed: createdBy=${linkData.createdBy}`)
+
+  // Don't hand out QR codes for links that no longer redirect
+  if (isExpired(linkData.expiresAt)) {
+    console.log(`[QR:${requestId}] Link expired: ${slug}`)
+    return c.json({ error: 'Link expired' }, 410)
   }
 
-  const options = parseOptions(c)
-  console.log(`[QR:${requestId}] Options: size=${options.size}, format=${options.format}, autoLogo=${options.autoLogo}, logo=${options.logo || 'none'}`)
-  
-  // Resolve logo: use explicit query param, or try auto-fetch from user's folder
-  let resolvedLogo = options.logo
-  if (options.autoLogo && linkData.createdBy && linkData.createdBy !== 'unknown') {
-    console.log(`[QR:${requestId}] Attempting auto-logo fetch for user: ${linkData.createdBy}`)
-    resolvedLogo = await tryGetUserLogo(linkData.createdBy)
-    console.log(`[QR:${requestId}] Auto-logo result: ${resolvedLogo || 'none found'}`)
+  const request = await resolveQRRequest(c, linkData.createdBy)
+  if ('error' in request) {
+    console.log(`[QR:${requestId}] Invalid options: ${request.error}`)
+    return c.json({ error: 'Invalid QR options', details: request.error }, 400)
   }
-  
+  console.log(`[QR:${requestId}] Logo: ${request.logoUrl || 'none'}`)
+
+  return renderLinkQR(c, slug, request, requestId)
+}
+
+/**
+ * QR code for one link from an already resolved QRRequest, without any
+ * per-link lookups (bulk exports check the links themselves). Served from the
+ * Cache API when the same code was generated before, by /:slug/qr or an
+ * earlier export.
+ */
+export async function renderLinkQR(c: Context, slug: string, request: QRRequest, requestId = crypto.randomUUID().slice(0, 8)): Promise<Response> {
+  // Valid, since resolveQRRequest checked them; this adds the link's own frame caption
+  const options = parseOptions(c, slug, request.userStyle)
+  if ('error' in options) {
+    return c.json({ error: 'Invalid QR options', details: options.error }, 400)
+  }
+
   // Use Cache API with explicit cache key including all query params
   // This ensures different size/format/logo combinations are cached separately
   const cache = caches.default
-  const cacheKey = buildCacheKey(c, slug, options, resolvedLogo)
+  const cacheKey = buildCacheKey(c, slug, options, request.logoUrl)
   const cacheRequest = new Request(cacheKey)
   
   // Check cache first
@@ -204,25 +364,40 @@ export async function handleQR(c: Context<{ Bindings: Bindings }>) {
     return cachedResponse
   }
 
-  const targetUrl = `https://gitly.sh/${slug}`
-  console.log(`[QR:${requestId}] Generating QR for URL: ${targetUrl}`)
+  const response = await renderQR(c, slug, options, request, requestId)
+  if (response.ok) {
+    // Store in cache with the explicit key (clone since response body is consumed)
+    console.log(`[QR:${requestId}] Caching response`)
+    c.executionCtx.waitUntil(cache.put(cacheRequest, response.clone()))
+  }
+  return response
+}
+
+/**
+ * Generate a QR code in the requested format (the uncached part of /:slug/qr).
+ */
+async function renderQR(c: Context, slug: string, options: QROptions, request: QRRequest, requestId: string): Promise<Response> {
+  console.log(`[QR:${requestId}] Options: size=${options.size}, format=${options.format}, logo=${request.logoUrl || 'none'}, fg=${formatColor(options.style.fg)}, bg=${options.style.bg ? formatColor(options.style.bg) : 'transparent'}, shape=${options.style.shape}, eye=${options.style.eye}, caption=${options.frameCaption || 'none'}`)
+  const resolvedLogo = request.logoUrl
+  console.log(`[QR:${requestId}] Generating QR for URL: ${qrTargetUrl(slug)}`)
 
   // Use higher error correction when logo is present
   const errorCorrectionLevel = resolvedLogo ? 'H' : 'M'
+  // Logo plate matches the background (white on transparent codes, for readability)
+  const plateColor: RGB = options.style.bg ?? { r: 255, g: 255, b: 255 }
 
   try {
     let response: Response
 
+    // Module matrix shared by all formats; styles are drawn from the same shapes
+    const qr = qrMatrix(slug, errorCorrectionLevel)
+    const shapes = qrShapes(qr, options.style)
+
     if (options.format === 'svg') {
       console.log(`[QR:${requestId}] Generating SVG QR code`)
       let svg: string
       try {
-        svg = await QRCode.toString(targetUrl, {
-          type: 'svg',
-          width: options.size,
-          errorCorrectionLevel,
-          margin: 2,
-        })
+        svg = renderQRSvg(shapes, qr.getModuleCount(), 2, options.size, options.style)
         console.log(`[QR:${requestId}] SVG generated successfully, length=${svg.length}`)
       } catch (svgError) {
         const errorMessage = svgError instanceof Error ? svgError.message : String(svgError)
@@ -240,8 +415,8 @@ export async function handleQR(c: Context<{ Bindings: Bindings }>) {
       if (resolvedLogo) {
         try {
           console.log(`[QR:${requestId}] Fetching logo for SVG embed: ${resolvedLogo}`)
-          const logoDataUri = await fetchLogoAsDataUri(resolvedLogo)
-          finalSvg = embedLogoInSvg(svg, logoDataUri, options.size, options.logoSize)
+          const logoDataUri = logoAsDataUri(await request.loadLogo())
+          finalSvg = embedLogoInSvg(svg, logoDataUri, options.size, options.logoSize, plateColor)
           console.log(`[QR:${requestId}] Logo embedded successfully`)
         } catch (logoError) {
           const errorMessage = logoError instanceof Error ? logoError.message : String(logoError)
@@ -251,6 +426,11 @@ export async function handleQR(c: Context<{ Bindings: Bindings }>) {
         }
       }
 
+      if (options.frameCaption) {
+        // viewBox side: modules plus the 2-module margin on each side
+        finalSvg = frameSvg(finalSvg, qr.getModuleCount() + 4, options.frameCaption, options.size, options.style)
+      }
+
       response = new Response(finalSvg, {
         status: 200,
         headers: {
@@ -258,6 +438,39 @@ export async function handleQR(c: Context<{ Bindings: Bindings }>) {
           'Cache-Control': 'public, max-age=3600',
         },
       })
+    } else if (options.format === 'pdf' || options.format === 'eps') {
+      console.log(`[QR:${requestId}] Generating ${options.format.toUpperCase()} QR code, width=${options.widthPt.toFixed(1)}pt`)
+
+      let logo: VectorLogo | undefined
+      if (resolvedLogo) {
+        try {
+          logo = { ...logoPixels(await request.loadLogo(), VECTOR_LOGO_MAX_PX), logoSize: options.logoSize }
+        } catch (logoError) {
+          const errorMessage = logoError instanceof Error ? logoError.message : String(logoError)
+          console.warn(`[QR:${requestId}] Logo fetch failed for ${options.format}, using QR without logo: ${errorMessage}`, logoError)
+        }
+      }
+
+      const vectorOptions = {
+        moduleCount: qr.getModuleCount(),
+        margin: 2,
+        widthPt: options.widthPt,
+        style: options.style,
+        logo,
+        caption: options.frameCaption,
+        title: `gitly.sh/${slug}`,
+      }
+      const isPdf = options.format === 'pdf'
+      const body = isPdf ? await renderQRPdf(shapes, vectorOptions) : renderQREps(shapes, vectorOptions)
+
+      response = new Response(body, {
+        status: 200,
+        headers: {
+          'Content-Type': isPdf ? 'application/pdf' : 'application/postscript',
+          'Content-Disposition': `${isPdf ? 'inline' : 'attachment'}; filename="${slug}-qr.${options.format}"`,
+          'Cache-Control': 'public, max-age=3600',
+        },
+      })
     } else {
       // PNG output with optional logo compositing via photon
       console.log(`[QR:${requestId}] Generating PNG QR code`)
@@ -266,13 +479,6 @@ export async function handleQR(c: Context<{ Bindings: Bindings }>) {
       let qrCellSize: number = 8
       let qrMargin: number = 2
       try {
-        // Use qrcode-generator to get QR matrix, then render with photon for proper PNG
-        const typeNumber = 0 // Auto-detect
-        const ecLevel: 'L' | 'M' | 'Q' | 'H' = errorCorrectionLevel as 'L' | 'M' | 'Q' | 'H'
-        const qr = qrGenerator(typeNumber, ecLevel)
-        qr.addData(targetUrl)
-        qr.make()
-        
         const moduleCount = qr.getModuleCount()
         const margin = 2
         const cellSize = Math.floor((options.size - margin * 2) / moduleCount)
@@ -280,39 +486,9 @@ export async function handleQR(c: Context<{ Bindings: Bindings }>) {
         qrModuleCount = moduleCount
         qrCellSize = cellSize
         qrMargin = margin
-        const actualSize = cellSize * moduleCount + margin * 2
-        
-        // Create white image and draw QR modules using photon
-        const pixels = new Uint8Array(actualSize * actualSize * 4)
-        // Fill with white
-        for (let i = 0; i < pixels.length; i += 4) {
-          pixels[i] = 255     // R
-          pixels[i + 1] = 255 // G  
-          pixels[i + 2] = 255 // B
-          pixels[i + 3] = 255 // A
-        }
-        
-        // Draw black modules
-        for (let row = 0; row < moduleCount; row++) {
-          for (let col = 0; col < moduleCount; col++) {
-            if (qr.isDark(row, col)) {
-              const x0 = margin + col * cellSize
-              const y0 = margin + row * cellSize
-              for (let dy = 0; dy < cellSize; dy++) {
-                for (let dx = 0; dx < cellSize; dx++) {
-                  const px = x0 + dx
-                  const py = y0 + dy
-                  const idx = (py * actualSize + px) * 4
-                  pixels[idx] = 0     // R
-                  pixels[idx + 1] = 0 // G
-                  pixels[idx + 2] = 0 // B
-                  pixels[idx + 3] = 255 // A
-                }
-              }
-            }
-          }
-        }
-        
+
+        const { pixels, side: actualSize } = rasterizeQR(shapes, moduleCount, { cellSize, margin }, options.style)
+
         // Convert to PNG using photon
         const qrImage = new PhotonImage(pixels, actualSize, actualSize)
         qrBytes = qrImage.get_bytes()
@@ -333,7 +509,7 @@ export async function handleQR(c: Context<{ Bindings: Bindings }>) {
       if (resolvedLogo) {
         try {
           console.log(`[QR:${requestId}] Compositing logo onto PNG: ${resolvedLogo}`)
-          outputBytes = await compositeLogoOnQR(qrBytes, resolvedLogo, options.size, options.logoSize, qrModuleCount, qrCellSize, qrMargin)
+          outputBytes = compositeLogoOnQR(qrBytes, await request.loadLogo(), options.size, options.logoSize, plateColor, qrModuleCount, qrCellSize, qrMargin)
           console.log(`[QR:${requestId}] Logo composited successfully, output size=${outputBytes.length} bytes`)
         } catch (logoError) {
           const errorMessage = logoError instanceof Error ? logoError.message : String(logoError)
@@ -345,6 +521,11 @@ export async function handleQR(c: Context<{ Bindings: Bindings }>) {
         outputBytes = qrBytes
       }
 
+      if (options.frameCaption) {
+        outputBytes = frameQRPng(outputBytes, options.frameCaption, qrCellSize, options.style)
+        console.log(`[QR:${requestId}] Frame added, output size=${outputBytes.length} bytes`)
+      }
+
       response = new Response(outputBytes, {
         status: 200,
         headers: {
@@ -354,10 +535,6 @@ export async function handleQR(c: Context<{ Bindings: Bindings }>) {
       })
     }
 
-    // Store in cache with the explicit key (clone since response body is consumed)
-    console.log(`[QR:${requestId}] Caching response`)
-    c.executionCtx.waitUntil(cache.put(cacheRequest, response.clone()))
-
     console.log(`[QR:${requestId}] QR generation complete`)
     return response
   } catch (error) {
@@ -375,38 +552,17 @@ export async function handleQR(c: Context<{ Bindings: Bindings }>) {
 /**
  * Composite a logo onto a QR code PNG using photon WASM
  */
-async function compositeLogoOnQR(
+function compositeLogoOnQR(
   qrBuffer: Uint8Array,
-  logoUrl: string,
+  logo: LogoImage,
   size: number,
   logoSizeRatio: number,
+  plateColor: RGB,
   moduleCount?: number,
   cellSize?: number,
   margin?: number
-): Promise<Uint8Array> {
-  console.log(`[compositeLogoOnQR] Starting. logoUrl=${logoUrl}, size=${size}, logoSizeRatio=${logoSizeRatio}`)
-  
-  // Validate and fetch the logo image with SSRF protection, size limit, and content-type validation
-  console.log(`[compositeLogoOnQR] Fetching logo with size limit`)
-  const logoResponse = await fetchLogoWithSizeLimit(logoUrl)
-  
-  console.log(`[compositeLogoOnQR] Logo fetch response: status=${logoResponse.status}`)
-  const logoBuffer = await logoResponse.arrayBuffer()
-  console.log(`[compositeLogoOnQR] Logo buffer size: ${logoBuffer.byteLength} bytes`)
-  
-  // Verify actual size after download (Content-Length can be spoofed or missing)
-  if (logoBuffer.byteLength > MAX_LOGO_SIZE) {
-    throw new Error(`Logo exceeds maximum size: ${logoBuffer.byteLength} bytes (max ${MAX_LOGO_SIZE})`)
-  }
-  
-  const logoBytes = new Uint8Array(logoBuffer)
-  
-  // Defense-in-depth: Validate magic bytes match the declared content-type
-  const contentType = logoResponse.headers.get('content-type')?.split(';')[0]?.trim() ?? ''
-  console.log(`[compositeLogoOnQR] Logo content-type: ${contentType}`)
-  if (!validateImageMagicBytes(logoBytes, contentType)) {
-    throw new Error(`Logo file signature does not match content-type: ${contentType}`)
-  }
+): Uint8Array {
+  console.log(`[compositeLogoOnQR] Starting. logo=${logo.bytes.length} bytes ${logo.contentType}, size=${size}, logoSizeRatio=${logoSizeRatio}`)
   
   // Load QR code as PhotonImage
   console.log(`[compositeLogoOnQR] Loading QR image into Photon`)
@@ -422,7 +578,7 @@ async function compositeLogoOnQR(
   console.log(`[compositeLogoOnQR] Loading logo image into Photon`)
   let logoImage: PhotonImage
   try {
-    logoImage = PhotonImage.new_from_byteslice(logoBytes)
+    logoImage = PhotonImage.new_from_byteslice(logo.bytes)
   } catch (e) {
     qrImage.free()
     const errorMessage = e instanceof Error ? e.message : String(e)
@@ -463,11 +619,11 @@ async function compositeLogoOnQR(
   }
   logoImage.free()
 
-  // Create white background at grid-aligned size (covers exact whole modules)
-  console.log(`[compositeLogoOnQR] Creating white background, size=${bgSize}`)
+  // Create background plate at grid-aligned size (covers exact whole modules)
+  console.log(`[compositeLogoOnQR] Creating logo background, size=${bgSize}`)
   let whiteBackground: PhotonImage
   try {
-    whiteBackground = createWhiteImage(bgSize, bgSize)
+    whiteBackground = createSolidImage(bgSize, bgSize, plateColor)
   } catch (e) {
     resizedLogo.free()
     qrImage.free()
@@ -523,16 +679,81 @@ async function compositeLogoOnQR(
 }
 
 /**
- * Create a white RGBA image of given dimensions
+ * Render caption text with photon as an alpha mask, cropped to the text's width.
+ * photon draws white text, so it's drawn on black and the red channel is the
+ * coverage. The mask is fontSize tall, which centers capital letters vertically.
+ * Text wider than maxWidth is redrawn smaller.
+ */
+function renderCaptionMask(text: string, fontSize: number, maxWidth: number): CaptionMask {
+  const height = Math.ceil(fontSize) + 1
+  const canvasWidth = Math.ceil(text.length * fontSize) + 2
+  const canvas = new Uint8Array(canvasWidth * height * 4)
+  for (let i = 3; i < canvas.length; i += 4) {
+    canvas[i] = 255 // Opaque black
+  }
+
+  const image = new PhotonImage(canvas, canvasWidth, height)
+  draw_text(image, text, 0, 0, fontSize)
+  const raw = image.get_raw_pixels()
+  image.free()
+
+  let minX = canvasWidth
+  let maxX = -1
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < canvasWidth; x++) {
+      if (raw[(y * canvasWidth + x) * 4] > 0) {
+        minX = Math.min(minX, x)
+        maxX = Math.max(maxX, x)
+      }
+    }
+  }
+  if (maxX < minX) {
+    return { alpha: new Uint8Array(0), width: 0, height: 0 }
+  }
+
+  const width = maxX - minX + 1
+  if (width > maxWidth && fontSize > 4) {
+    return renderCaptionMask(text, Math.floor((fontSize * maxWidth) / width), maxWidth)
+  }
+
+  const alpha = new Uint8Array(width * height)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      alpha[y * width + x] = raw[(y * canvasWidth + minX + x) * 4]
+    }
+  }
+  return { alpha, width, height }
+}
+
+/**
+ * Add a frame and caption around a finished PNG code (logo included)
+ */
+function frameQRPng(pngBytes: Uint8Array, caption: string, cellSize: number, style: QRStyle): Uint8Array {
+  const code = PhotonImage.new_from_byteslice(pngBytes)
+  const codeSide = code.get_width()
+  const codePixels = code.get_raw_pixels()
+  code.free()
+
+  const layout = frameLayout(codeSide, cellSize, caption)
+  const mask = renderCaptionMask(caption, layout.fontSize, layout.maxCaptionWidth)
+  const pixels = framePixels(codePixels, codeSide, layout, style, mask)
+
+  const framed = new PhotonImage(pixels, layout.width, layout.height)
+  const bytes = framed.get_bytes()
+  framed.free()
+  return bytes
+}
+
+/**
+ * Create a solid RGBA image of given dimensions and color
  * Uses PhotonImage constructor which takes raw RGBA pixels
  */
-function createWhiteImage(width: number, height: number): PhotonImage {
-  // Create a white pixel array (RGBA)
+function createSolidImage(width: number, height: number, color: RGB): PhotonImage {
   const pixels = new Uint8Array(width * height * 4)
   for (let i = 0; i < pixels.length; i += 4) {
-    pixels[i] = 255     // R
-    pixels[i + 1] = 255 // G
-    pixels[i + 2] = 255 // B
+    pixels[i] = color.r
+    pixels[i + 1] = color.g
+    pixels[i + 2] = color.b
     pixels[i + 3] = 255 // A
   }
   
@@ -555,33 +776,15 @@ function arrayBufferToBase64(buffer: ArrayBuffer): string {
 }
 
 /**
- * Fetch a logo image and convert it to a base64 data URI.
+ * Convert a logo to a base64 data URI.
  * This prevents viewer IP leakage by proxying the logo through the server.
- * Enforces size limits and validates content-type to prevent malicious file processing.
  */
-async function fetchLogoAsDataUri(logoUrl: string): Promise<string> {
-  const response = await fetchLogoWithSizeLimit(logoUrl)
-
-  const rawContentType = response.headers.get('content-type')
-  const contentType = rawContentType?.split(';')[0]?.trim() || 'image/png'
-  const arrayBuffer = await response.arrayBuffer()
-  
-  // Verify actual size after download (Content-Length can be spoofed or missing)
-  if (arrayBuffer.byteLength > MAX_LOGO_SIZE) {
-    throw new Error(`Logo exceeds maximum size: ${arrayBuffer.byteLength} bytes (max ${MAX_LOGO_SIZE})`)
-  }
-  
-  // Defense-in-depth: Validate magic bytes match the declared content-type
-  const bytes = new Uint8Array(arrayBuffer)
-  if (!validateImageMagicBytes(bytes, contentType)) {
-    throw new Error(`Logo file signature does not match content-type: ${contentType}`)
-  }
-  
+function logoAsDataUri(logo: LogoImage): string {
   // Convert all image formats to PNG for consistent SVG embedding
   // (ICO and other formats may not render in SVG <image> tags)
   let pngBytes: Uint8Array
   try {
-    const logoImage = PhotonImage.new_from_byteslice(bytes)
+    const logoImage = PhotonImage.new_from_byteslice(logo.bytes)
     pngBytes = logoImage.get_bytes() // get_bytes() returns PNG format
     logoImage.free()
   } catch (e) {
@@ -595,11 +798,30 @@ async function fetchLogoAsDataUri(logoUrl: string): Promise<string> {
   return `data:image/png;base64,${base64}`
 }
 
+/**
+ * Decode a logo to RGBA pixels for PDF/EPS embedding,
+ * scaled down so its longest side is at most maxPx.
+ */
+function logoPixels(logo: LogoImage, maxPx: number): { rgba: Uint8Array; width: number; height: number } {
+  let image = PhotonImage.new_from_byteslice(logo.bytes)
+  const longest = Math.max(image.get_width(), image.get_height())
+  if (longest > maxPx) {
+    const scale = maxPx / longest
+    const resized = resize(image, Math.max(1, Math.round(image.get_width() * scale)), Math.max(1, Math.round(image.get_height() * scale)), SamplingFilter.Lanczos3)
+    image.free()
+    image = resized
+  }
+
+  const result = { rgba: image.get_raw_pixels(), width: image.get_width(), height: image.get_height() }
+  image.free()
+  return result
+}
+
 /**
  * Embed a logo into an SVG QR code using xlink:href for broad compatibility.
  * Parses the viewBox to correctly position the logo in SVG coordinate space.
  */
-function embedLogoInSvg(svg: string, logoDataUri: string, size: number, logoSize: number): string {
+function embedLogoInSvg(svg: string, logoDataUri: string, size: number, logoSize: number, plateColor: RGB): string {
   // Parse viewBox to get actual SVG coordinate system
   const viewBoxMatch = svg.match(/viewBox=["']([^"']+)["']/)
   let svgSize = size // Default to pixel size
@@ -610,18 +832,13 @@ function embedLogoInSvg(svg: string, logoDataUri: string, size: number, logoSize
     }
   }
   
-  // In qrcode library SVG, each module is 1 unit, margin is 2 units per side
+  // In renderQRSvg output, each module is 1 unit, margin is 2 units per side
   const svgMargin = 2
   const moduleCount = svgSize - svgMargin * 2
 
   // Calculate logo area snapped to module grid
-  let logoModules = Math.ceil(moduleCount * logoSize)
-  let bgModules = logoModules + 2 // 1 module white padding per side
-  if (bgModules % 2 === 0) bgModules += 1
-  logoModules = bgModules - 2
-
-  const logoStartModule = Math.floor((moduleCount - bgModules) / 2)
-  const bgX = svgMargin + logoStartModule
+  const { plateStart, plateModules: bgModules, logoModules } = logoPlacement(moduleCount, logoSize)
+  const bgX = svgMargin + plateStart
   const bgY = bgX
   const logoX = bgX + 1 // 1 module padding
   const logoY = logoX
@@ -632,7 +849,7 @@ function embedLogoInSvg(svg: string, logoDataUri: string, size: number, logoSize
     updatedSvg = svg.replace('<svg', '<svg xmlns:xlink="http://www.w3.org/1999/xlink"')
   }
 
-  // Create a white background rect and image element for the logo
+  // Create a background rect and image element for the logo
   // All dimensions snapped to module grid boundaries
   const logoElements = `
     <rect
@@ -640,7 +857,7 @@ function embedLogoInSvg(svg: string, logoDataUri: string, size: number, logoSize
       y="${bgY}"
       width="${bgModules}"
       height="${bgModules}"
-      fill="white"
+      fill="${formatColor(plateColor)}"
     />
     <image
       xlink:href="${logoDataUri}"
@@ -0,0 +1,285 @@
+/**
+ * Unit tests for redirect destination helpers
+ * Run with: npx tsx redirect.test.ts
+ */
+
+import { joinPathSuffix, applyQueryParams, extractScanChannel, selectDeviceTarget, selectGeoTarget, selectSplitVariant, splitBucket, resolveRedirectStatus, redirectCacheControl } from './redirect'
+import { parseUserAgent } from './ua-parser'
+
+const testCases: Array<{
+  base: string
+  suffix: string
+  expected: string | null
+  description: string
+}> = [
+  // Basic joining
+  { base: 'https://github.com/andrewmurphyio', suffix: '', expected: 'https://github.com/andrewmurphyio', description: 'Empty suffix returns base unchanged' },
+  { base: 'https://github.com/andrewmurphyio', suffix: 'some-repo/issues', expected: 'https://github.com/andrewmurphyio/some-repo/issues', description: 'Joins multi-segment suffix' },
+  { base: 'https://github.com/andrewmurphyio/', suffix: 'some-repo', expected: 'https://github.com/andrewmurphyio/some-repo', description: 'Base with trailing slash' },
+  { base: 'https://example.com', suffix: 'docs', expected: 'https://example.com/docs', description: 'Origin-only base' },
+  { base: 'https://example.com/docs', suffix: 'guide/', expected: 'https://example.com/docs/guide/', description: 'Trailing slash preserved' },
+  { base: 'https://example.com/docs?lang=en', suffix: 'intro', expected: 'https://example.com/docs/intro?lang=en', description: 'Base query string preserved' },
+  { base: 'https://example.com/docs', suffix: 'a%20b', expected: 'https://example.com/docs/a%20b', description: 'Percent-encoding kept as-is' },
+
+  // Path traversal
+  { base: 'https://example.com/docs', suffix: '..', expected: null, description: 'Dot-dot segment rejected' },
+  { base: 'https://example.com/docs', suffix: 'a/../../admin', expected: null, description: 'Dot-dot mid-path rejected' },
+  { base: 'https://example.com/docs', suffix: '%2e%2e/admin', expected: null, description: 'Encoded dot-dot rejected' },
+  { base: 'https://example.com/docs', suffix: '.', expected: null, description: 'Single dot segment rejected' },
+  { base: 'https://example.com/docs', suffix: 'a%2F..%2Fadmin', expected: null, description: 'Encoded slash rejected' },
+  { base: 'https://example.com/docs', suffix: 'a%5C..', expected: null, description: 'Encoded backslash rejected' },
+
+  // Origin escapes
+  { base: 'https://example.com/docs', suffix: '/evil.com', expected: null, description: 'Leading empty segment rejected' },
+  { base: 'https://example.com/docs', suffix: 'a//evil.com', expected: null, description: 'Empty segment mid-path rejected' },
+
+  // Malformed input
+  { base: 'https://example.com/docs', suffix: '%E0%A4%A', expected: null, description: 'Malformed percent-encoding rejected' },
+  { base: 'not a url', suffix: 'a', expected: null, description: 'Invalid base URL rejected' },
+]
+
+const queryCases: Array<{
+  destination: string
+  incoming?: string
+  utm?: { source?: string; medium?: string; campaign?: string }
+  expected: string
+  description: string
+}> = [
+  { destination: 'https://example.com/page', expected: 'https://example.com/page', description: 'No options leaves URL untouched' },
+  { destination: 'https://example.com/page?a=1', incoming: '', expected: 'https://example.com/page?a=1', description: 'Empty incoming query leaves URL untouched' },
+  { destination: 'https://example.com/page', incoming: 'ref=hn', expected: 'https://example.com/page?ref=hn', description: 'Forwards incoming params' },
+  { destination: 'https://example.com/page?a=1', incoming: 'b=2', expected: 'https://example.com/page?a=1&b=2', description: 'Merges with destination params' },
+  { destination: 'https://example.com/page?a=1&a=2', incoming: 'a=3', expected: 'https://example.com/page?a=3', description: 'Incoming replaces all destination values for a key' },
+  { destination: 'https://example.com/page', incoming: 'tag=a&tag=b', expected: 'https://example.com/page?tag=a&tag=b', description: 'Repeated incoming keys kept' },
+  { destination: 'https://example.com/page', utm: { source: 'gitly', medium: 'social', campaign: 'launch' }, expected: 'https://example.com/page?utm_source=gitly&utm_medium=social&utm_campaign=launch', description: 'Appends UTM defaults' },
+  { destination: 'https://example.com/page?utm_source=newsletter', utm: { source: 'gitly', medium: 'social' }, expected: 'https://example.com/page?utm_source=newsletter&utm_medium=social', description: 'Destination UTM beats defaults' },
+  { destination: 'https://example.com/page', incoming: 'utm_campaign=spring', utm: { campaign: 'launch' }, expected: 'https://example.com/page?utm_campaign=spring', description: 'Incoming UTM beats defaults' },
+  { destination: 'https://example.com/page#top', incoming: 'x=1', expected: 'https://example.com/page?x=1#top', description: 'Fragment preserved' },
+]
+
+const IPHONE_UA = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1'
+const IPAD_UA = 'Mozilla/5.0 (iPad; CPU OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1'
+const ANDROID_UA = 'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36'
+const MAC_UA = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+
+const allTargets = { ios: 'https://apps.apple.com/app/x', android: 'https://play.google.com/store/apps/x', desktop: 'https://example.com' }
+
+const deviceCases: Array<{
+  targets?: { ios?: string; android?: string; desktop?: string }
+  ua: string | null
+  expected: string | null
+  description: string
+}> = [
+  { targets: undefined, ua: IPHONE_UA, expected: null, description: 'No targets uses default' },
+  { targets: allTargets, ua: IPHONE_UA, expected: 'ios', description: 'iPhone gets iOS target' },
+  { targets: allTargets, ua: IPAD_UA, expected: 'ios', description: 'iPad gets iOS target' },
+  { targets: allTargets, ua: ANDROID_UA, expected: 'android', description: 'Android gets Android target' },
+  { targets: allTargets, ua: MAC_UA, expected: 'desktop', description: 'Mac gets desktop target' },
+  { targets: { desktop: 'https://example.com' }, ua: IPHONE_UA, expected: null, description: 'iPhone without iOS target uses default' },
+  { targets: allTargets, ua: null, expected: 'desktop', description: 'Missing UA treated as desktop' },
+]
+
+const geoOverrides = { US: 'https://example.com/us', GB: 'https://example.co.uk' }
+
+const geoCases: Array<{
+  geo?: Record<string, string>
+  country: string | null
+  expected: string | null
+  description: string
+}> = [
+  { geo: geoOverrides, country: 'GB', expected: 'geo:GB', description: 'Matching country gets override' },
+  { geo: geoOverrides, country: 'gb', expected: 'geo:GB', description: 'Country code match is case-insensitive' },
+  { geo: geoOverrides, country: 'DE', expected: null, description: 'Unlisted country falls back' },
+  { geo: geoOverrides, country: null, expected: null, description: 'Unknown country falls back' },
+  { geo: undefined, country: 'US', expected: null, description: 'No overrides falls back' },
+]
+
+const seventyThirty = [
+  { label: 'a', url: 'https://example.com/a', weight: 70 },
+  { label: 'b', url: 'https://example.com/b', weight: 30 },
+]
+
+const splitCases: Array<{
+  split?: Array<{ label: string; url: string; weight: number }>
+  bucket: number
+  expected: string | null
+  description: string
+}> = [
+  { split: seventyThirty, bucket: 0, expected: 'a', description: 'Bucket 0 gets first arm' },
+  { split: seventyThirty, bucket: 69, expected: 'a', description: 'Last bucket of first arm' },
+  { split: seventyThirty, bucket: 70, expected: 'b', description: 'First bucket of second arm' },
+  { split: seventyThirty, bucket: 99, expected: 'b', description: 'Last bucket of second arm' },
+  { split: seventyThirty, bucket: 170, expected: 'b', description: 'Bucket wraps modulo total weight' },
+  { split: [], bucket: 5, expected: null, description: 'Empty split falls back' },
+  { split: undefined, bucket: 5, expected: null, description: 'No split falls back' },
+]
+
+const NOW = 1_700_000_000
+
+const statusCases: Array<{
+  redirectType: unknown
+  expectedStatus: number
+  expiresAt?: number
+  expectedCacheControl: string
+  description: string
+}> = [
+  { redirectType: undefined, expectedStatus: 302, expectedCacheControl: 'no-store', description: 'Default is an uncached 302' },
+  { redirectType: 307, expectedStatus: 307, expectedCacheControl: 'no-store', description: '307 is not cached' },
+  { redirectType: 301, expectedStatus: 301, expectedCacheControl: 'private, max-age=300', description: '301 is cached briefly by the browser' },
+  { redirectType: 308, expectedStatus: 308, expectedCacheControl: 'private, max-age=300', description: '308 is cached briefly by the browser' },
+  { redirectType: 308, expectedStatus: 308, expiresAt: NOW + 120, expectedCacheControl: 'private, max-age=120', description: 'Permanent cache capped at expiry' },
+  { redirectType: 301, expectedStatus: 301, expiresAt: NOW + 30 * 86400, expectedCacheControl: 'private, max-age=300', description: 'Distant expiry keeps the usual cache time' },
+  { redirectType: 303, expectedStatus: 302, expectedCacheControl: 'no-store', description: 'Unsupported status falls back to 302' },
+  { redirectType: '301', expectedStatus: 302, expectedCacheControl: 'no-store', description: 'Non-numeric status falls back to 302' },
+]
+
+const channelCases: Array<{
+  query: string
+  expectedChannel: 'qr' | 'link'
+  expectedQuery: string
+  description: string
+}> = [
+  { query: '', expectedChannel: 'link', expectedQuery: '', description: 'No query is a link click' },
+  { query: 'qr', expectedChannel: 'qr', expectedQuery: '', description: 'Bare ?qr marks a scan' },
+  { query: 'qr=&ref=poster', expectedChannel: 'qr', expectedQuery: 'ref=poster', description: 'Marker stripped, other params kept' },
+  { query: 'ref=poster&qr', expectedChannel: 'qr', expectedQuery: 'ref=poster', description: 'Marker after other params' },
+  { query: 'qrcode=1', expectedChannel: 'link', expectedQuery: 'qrcode=1', description: 'Similar param names are not the marker' },
+]
+
+let passed = 0
+let failed = 0
+
+console.log('Running redirect helper tests...\n')
+
+for (const { base, suffix, expected, description } of testCases) {
+  const actual = joinPathSuffix(base, suffix)
+
+  if (actual === expected) {
+    console.log(`✓ ${description}`)
+    passed++
+  } else {
+    console.log(`✗ ${description}`)
+    console.log(`  Base: ${base}, suffix: ${suffix}`)
+    console.log(`  Expected: ${expected}`)
+    console.log(`  Actual: ${actual}`)
+    failed++
+  }
+}
+
+for (const { destination, incoming, utm, expected, description } of queryCases) {
+  const params = incoming === undefined ? undefined : new URLSearchParams(incoming)
+  const actual = applyQueryParams(destination, params, utm)
+
+  if (actual === expected) {
+    console.log(`✓ ${description}`)
+    passed++
+  } else {
+    console.log(`✗ ${description}`)
+    console.log(`  Destination: ${destination}, incoming: ${incoming}`)
+    console.log(`  Expected: ${expected}`)
+    console.log(`  Actual: ${actual}`)
+    failed++
+  }
+}
+
+for (const { targets, ua, expected, description } of deviceCases) {
+  const actual = selectDeviceTarget(targets, parseUserAgent(ua))?.target ?? null
+
+  if (actual === expected) {
+    console.log(`✓ ${description}`)
+    passed++
+  } else {
+    console.log(`✗ ${description}`)
+    console.log(`  UA: ${ua}`)
+    console.log(`  Expected: ${expected}`)
+    console.log(`  Actual: ${actual}`)
+    failed++
+  }
+}
+
+for (const { geo, country, expected, description } of geoCases) {
+  const actual = selectGeoTarget(geo, country)?.target ?? null
+
+  if (actual === expected) {
+    console.log(`✓ ${description}`)
+    passed++
+  } else {
+    console.log(`✗ ${description}`)
+    console.log(`  Country: ${country}`)
+    console.log(`  Expected: ${expected}`)
+    console.log(`  Actual: ${actual}`)
+    failed++
+  }
+}
+
+for (const { split, bucket, expected, description } of splitCases) {
+  const actual = selectSplitVariant(split, bucket)?.label ?? null
+
+  if (actual === expected) {
+    console.log(`✓ ${description}`)
+    passed++
+  } else {
+    console.log(`✗ ${description}`)
+    console.log(`  Bucket: ${bucket}`)
+    console.log(`  Expected: ${expected}`)
+    console.log(`  Actual: ${actual}`)
+    failed++
+  }
+}
+
+for (const { redirectType, expectedStatus, expiresAt, expectedCacheControl, description } of statusCases) {
+  const status = resolveRedirectStatus(redirectType)
+  const cacheControl = redirectCacheControl(status, expiresAt, NOW)
+
+  if (status === expectedStatus && cacheControl === expectedCacheControl) {
+    console.log(`✓ ${description}`)
+    passed++
+  } else {
+    console.log(`✗ ${description}`)
+    console.log(`  Expected: ${expectedStatus} / ${expectedCacheControl}`)
+    console.log(`  Actual: ${status} / ${cacheControl}`)
+    failed++
+  }
+}
+
+for (const { query, expectedChannel, expectedQuery, description } of channelCases) {
+  const incoming = new URLSearchParams(query)
+  const { channel, params } = extractScanChannel(incoming)
+
+  if (channel === expectedChannel && params.toString() === expectedQuery && incoming.toString() === new URLSearchParams(query).toString()) {
+    console.log(`✓ ${description}`)
+    passed++
+  } else {
+    console.log(`✗ ${description}`)
+    console.log(`  Query: ${query}`)
+    console.log(`  Expected: ${expectedChannel} / ${expectedQuery}`)
+    console.log(`  Actual: ${channel} / ${params.toString()}`)
+    failed++
+  }
+}
+
+// Sticky assignment: same visitor + slug always lands in the same bucket
+async function runStickyTests() {
+  const checks: Array<[boolean, string]> = [
+    [(await splitBucket('visitor-1', 'promo')) === (await splitBucket('visitor-1', 'promo')), 'Split bucket is stable for a visitor'],
+    [(await splitBucket('visitor-1', 'promo')) !== (await splitBucket('visitor-1', 'launch')), 'Split bucket depends on slug'],
+  ]
+
+  for (const [ok, description] of checks) {
+    if (ok) {
+      console.log(`✓ ${description}`)
+      passed++
+    } else {
+      console.log(`✗ ${description}`)
+      failed++
+    }
+  }
+
+  console.log(`\n${passed} passed, ${failed} failed`)
+
+  if (failed > 0) {
+    process.exit(1)
+  }
+}
+
+runStickyTests()
@@ -0,0 +1,248 @@
+/**
+ * Redirect destination helpers
+ *
+ * Pure functions for building the final redirect URL from a link's stored
+ * destination and the incoming request. Kept free of Hono/Workers types so
+ * they can be unit tested with tsx.
+ */
+
+import type { UtmParams, DeviceTargets, SplitVariant, RedirectStatus } from './link-data'
+import type { ParsedUA } from './ua-parser'
+
+/**
+ * Append a path suffix to a prefix link's destination.
+ *
+ * The suffix is the still percent-encoded remainder of the request path
+ * (e.g. "some-repo/issues" for gitly.sh/gh/some-repo/issues). The base URL's
+ * query string and fragment are preserved.
+ *
+ * Returns null if the suffix could escape the destination, i.e. it contains
+ * dot segments, encoded separators or empty segments, or the joined URL ends up
+ * on another origin or outside the base path.
+ *
+ * @param baseUrl - The link's stored destination URL
+ * @param suffix - Request path after /:slug/, without the leading slash
+ */
+export function joinPathSuffix(baseUrl: string, suffix: string): string | null {
+  if (!suffix) return baseUrl
+
+  const segments = suffix.split('/')
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i]
+
+    // Allow a single trailing slash (gh/repo/), but not empty segments mid-path (gh//evil.com)
+    if (segment === '') {
+      if (i === segments.length - 1) continue
+      return null
+    }
+
+    let decoded: string
+    try {
+      decoded = decodeURIComponent(segment)
+    } catch {
+      return null // Malformed percent-encoding
+    }
+
+    // Dot segments (including %2e%2e) and encoded separators could walk up the target path
+    if (decoded === '.' || decoded === '..' || decoded.includes('/') || decoded.includes('\\')) {
+      return null
+    }
+  }
+
+  let base: URL
+  try {
+    base = new URL(baseUrl)
+  } catch {
+    return null
+  }
+
+  const basePath = base.pathname.endsWith('/') ? base.pathname : `${base.pathname}/`
+  const joined = new URL(base.toString())
+  joined.pathname = basePath + segments.join('/')
+
+  // Defense-in-depth: the result must stay on the same origin and under the base path
+  if (joined.origin !== base.origin || !joined.pathname.startsWith(basePath)) {
+    return null
+  }
+
+  return joined.toString()
+}
+
+// Query parameter that generated QR codes append to the short URL (gitly.sh/<slug>?qr)
+export const QR_SCAN_PARAM = 'qr'
+
+/**
+ * Separate the QR scan marker from the request's query params.
+ * The marker is never forwarded to the destination.
+ *
+ * @param incoming - Query params from the request
+ * @returns The click channel ('qr' for scans) and the remaining params
+ */
+export function extractScanChannel(incoming: URLSearchParams): { channel: 'qr' | 'link'; params: URLSearchParams } {
+  const params = new URLSearchParams(incoming)
+  const channel = params.has(QR_SCAN_PARAM) ? 'qr' : 'link'
+  params.delete(QR_SCAN_PARAM)
+  return { channel, params }
+}
+
+/**
+ * Merge query parameters into a destination URL.
+ *
+ * Precedence (highest first):
+ * 1. Incoming request params (only when the link forwards its query string)
+ * 2. Params already in the destination URL
+ * 3. The link's configured UTM defaults (only added when the key is absent)
+ *
+ * Incoming params replace every destination value for the same key, so
+ * gitly.sh/promo?utm_campaign=spring overrides a campaign baked into the URL.
+ *
+ * @param destination - Resolved destination URL
+ * @param incoming - Query params from the request, or undefined to not forward any
+ * @param utm - UTM defaults configured for the link
+ */
+export function applyQueryParams(destination: string, incoming?: URLSearchParams, utm?: UtmParams): string {
+  const hasIncoming = incoming !== undefined && [...incoming.keys()].length > 0
+  if (!hasIncoming && !utm) return destination
+
+  const url = new URL(destination)
+
+  if (incoming) {
+    for (const key of new Set(incoming.keys())) {
+      url.searchParams.delete(key)
+      for (const value of incoming.getAll(key)) {
+        url.searchParams.append(key, value)
+      }
+    }
+  }
+
+  if (utm) {
+    const defaults: Array<[string, string | undefined]> = [
+      ['utm_source', utm.source],
+      ['utm_medium', utm.medium],
+      ['utm_campaign', utm.campaign],
+    ]
+    for (const [key, value] of defaults) {
+      if (value && !url.searchParams.has(key)) {
+        url.searchParams.set(key, value)
+      }
+    }
+  }
+
+  return url.toString()
+}
+
+/**
+ * Pick the platform-specific destination for a visitor, if the link defines one.
+ *
+ * iOS and Android match on OS (phones and tablets alike, so app store links work
+ * on iPads too); desktop matches any other desktop-class device.
+ *
+ * @returns The matching target and its URL, or null to use the link's default URL
+ */
+export function selectDeviceTarget(
+  targets: DeviceTargets | undefined,
+  ua: ParsedUA
+): { target: keyof DeviceTargets; url: string } | null {
+  if (!targets) return null
+
+  if (ua.os === 'iOS') return targets.ios ? { target: 'ios', url: targets.ios } : null
+  if (ua.os === 'Android') return targets.android ? { target: 'android', url: targets.android } : null
+  if (ua.deviceType === 'desktop' && targets.desktop) return { target: 'desktop', url: targets.desktop }
+
+  return null
+}
+
+/**
+ * Pick the country-specific destination for a visitor, if the link defines one.
+ *
+ * @param geo - Country code → URL overrides from the link
+ * @param country - Visitor country from Cloudflare (cf.country), e.g. "US"
+ * @returns The matching target (e.g. "geo:US") and its URL, or null to fall back
+ */
+export function selectGeoTarget(
+  geo: Record<string, string> | undefined,
+  country: string | null | undefined
+): { target: string; url: string } | null {
+  if (!geo || !country) return null
+
+  const code = country.toUpperCase()
+  const url = geo[code]
+  return url ? { target: `geo:${code}`, url } : null
+}
+
+/**
+ * Map a visitor to a stable bucket for a split link.
+ *
+ * Mixing the slug into the visitor hash keeps assignments independent across
+ * links (a visitor in arm "a" for one link isn't always "a" for every link).
+ *
+ * @param visitorHash - Daily visitor hash from hashIP (so assignment is sticky for the day)
+ * @param slug - The link's slug
+ * @returns Unsigned 32-bit integer
+ */
+export async function splitBucket(visitorHash: string, slug: string): Promise<number> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${visitorHash}:${slug}`))
+  return new DataView(digest).getUint32(0)
+}
+
+/**
+ * Pick a split arm for a bucket value, proportionally to the arms' weights.
+ *
+ * @param variants - Weighted arms (weights are positive integers)
+ * @param bucket - Non-negative integer, e.g. from splitBucket()
+ */
+export function selectSplitVariant(variants: SplitVariant[] | undefined, bucket: number): SplitVariant | null {
+  if (!variants || variants.length === 0) return null
+
+  const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0)
+  if (totalWeight <= 0) return null
+
+  let position = bucket % totalWeight
+  for (const variant of variants) {
+    if (position < variant.weight) return variant
+    position -= variant.weight
+  }
+  return null
+}
+
+// How long a browser may keep a permanent redirect (5 minutes). Cached hits
+// never reach the worker, so repeat clicks and QR scans within this window
+// aren't counted; kept short so analytics barely undercount.
+const PERMANENT_REDIRECT_MAX_AGE = 5 * 60
+
+const REDIRECT_STATUSES: ReadonlySet<number> = new Set([301, 302, 307, 308])
+
+/**
+ * Resolve a link's configured redirect status, defaulting to 302.
+ * Unknown values (e.g. a hand-edited KV entry) also fall back to 302.
+ */
+export function resolveRedirectStatus(redirectType: unknown): RedirectStatus {
+  return typeof redirectType === 'number' && REDIRECT_STATUSES.has(redirectType)
+    ? (redirectType as RedirectStatus)
+    : 302
+}
+
+/**
+ * Cache-Control header for a redirect response.
+ *
+ * Temporary redirects (302/307) are never cached so every click is counted and
+ * edits apply immediately. Permanent redirects (301/308) may be cached briefly by
+ * the visitor's browser only (never by shared caches, which would hide every
+ * visitor behind them), and never past the link's expiry.
+ *
+ * @param status - Redirect status code
+ * @param expiresAt - Link expiry (Unix seconds), if any
+ * @param now - Current Unix timestamp (seconds)
+ */
+export function redirectCacheControl(
+  status: RedirectStatus,
+  expiresAt: number | undefined,
+  now = Math.floor(Date.now() / 1000)
+): string {
+  if (status === 302 || status === 307) return 'no-store'
+
+  const maxAge = typeof expiresAt === 'number'
+    ? Math.max(0, Math.min(PERMANENT_REDIRECT_MAX_AGE, expiresAt - now))
+    : PERMANENT_REDIRECT_MAX_AGE
+  return `private, max-age=${maxAge}`
+}
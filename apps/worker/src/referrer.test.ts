@@ -0,0 +1,91 @@
+/**
+ * Unit tests for referrer normalization
+ * Run with: npx tsx referrer.test.ts
+ */
+
+import { normalizeReferrer } from './referrer'
+
+const testCases: Array<{
+  referrer: string | null
+  domain: string | null
+  source: string
+  utm?: { source: string | null; medium: string | null; campaign: string | null }
+  description: string
+}> = [
+  // No referrer
+  { referrer: null, domain: null, source: 'direct', description: 'Missing Referer is direct' },
+  { referrer: '  ', domain: null, source: 'direct', description: 'Blank Referer is direct' },
+
+  // Shorteners and redirectors map to their network
+  { referrer: 'https://t.co/AbCdEf123', domain: 't.co', source: 'twitter', description: 't.co is Twitter' },
+  { referrer: 'https://x.com/', domain: 'x.com', source: 'twitter', description: 'x.com is Twitter' },
+  { referrer: 'https://mobile.twitter.com/octocat/status/1', domain: 'mobile.twitter.com', source: 'twitter', description: 'Subdomain matches parent' },
+  { referrer: 'https://lnkd.in/gXyZ', domain: 'lnkd.in', source: 'linkedin', description: 'lnkd.in is LinkedIn' },
+  { referrer: 'https://www.linkedin.com/feed/', domain: 'linkedin.com', source: 'linkedin', description: 'www. is stripped' },
+  { referrer: 'https://slack-redir.net/link?url=x', domain: 'slack-redir.net', source: 'slack', description: 'Slack redirector' },
+  { referrer: 'https://l.facebook.com/', domain: 'l.facebook.com', source: 'facebook', description: 'Facebook link shim' },
+  { referrer: 'https://news.ycombinator.com/item?id=1', domain: 'news.ycombinator.com', source: 'hackernews', description: 'Hacker News' },
+  { referrer: 'https://Example.COM/Path', domain: 'example.com', source: 'other', description: 'Unknown domain is lowercased and other' },
+
+  // Search engines on country domains
+  { referrer: 'https://www.google.co.uk/', domain: 'google.co.uk', source: 'google', description: 'Country Google domain' },
+  { referrer: 'https://www.bing.com/search?q=x', domain: 'bing.com', source: 'bing', description: 'Bing' },
+
+  // Email
+  { referrer: 'https://mail.google.com/', domain: 'mail.google.com', source: 'email', description: 'Gmail is email, not Google search' },
+  { referrer: 'https://outlook.office.com/mail/', domain: 'outlook.office.com', source: 'email', description: 'Outlook web' },
+
+  // Android apps
+  { referrer: 'android-app://com.slack/', domain: 'com.slack', source: 'slack', description: 'Slack Android app' },
+  { referrer: 'android-app://com.google.android.gm/', domain: 'com.google.android.gm', source: 'email', description: 'Gmail Android app' },
+  { referrer: 'android-app://org.example.unknown/', domain: 'org.example.unknown', source: 'other', description: 'Unknown Android app' },
+
+  // UTM tags
+  {
+    referrer: 'https://blog.example.com/post?utm_source=Newsletter&utm_medium=email&utm_campaign=launch',
+    domain: 'blog.example.com', source: 'email',
+    utm: { source: 'newsletter', medium: 'email', campaign: 'launch' },
+    description: 'utm_medium=email classifies an unknown site as email',
+  },
+  {
+    referrer: 'https://example.com/?utm_source=twitter',
+    domain: 'example.com', source: 'twitter',
+    utm: { source: 'twitter', medium: null, campaign: null },
+    description: 'utm_source alias classifies an unknown site',
+  },
+  {
+    referrer: 'https://www.linkedin.com/?utm_source=newsletter',
+    domain: 'linkedin.com', source: 'linkedin',
+    utm: { source: 'newsletter', medium: null, campaign: null },
+    description: 'Known domain wins over UTM tags',
+  },
+
+  // Garbage
+  { referrer: 'not a url', domain: null, source: 'other', description: 'Unparseable referrer' },
+  { referrer: 'ftp://files.example.com/', domain: null, source: 'other', description: 'Non-web scheme' },
+]
+
+let passed = 0
+let failed = 0
+
+for (const { referrer, domain, source, utm, description } of testCases) {
+  const result = normalizeReferrer(referrer)
+  const expectedUtm = utm ?? { source: null, medium: null, campaign: null }
+
+  if (result.domain === domain && result.source === source && JSON.stringify(result.utm) === JSON.stringify(expectedUtm)) {
+    console.log(`✓ ${description}`)
+    passed++
+  } else {
+    console.log(`✗ ${description}`)
+    console.log(`  Referrer: ${referrer}`)
+    console.log(`  Expected: ${domain} / ${source} / ${JSON.stringify(expectedUtm)}`)
+    console.log(`  Actual: ${result.domain} / ${result.source} / ${JSON.stringify(result.utm)}`)
+    failed++
+  }
+}
+
+console.log(`\n${passed} passed, ${failed} failed`)
+
+if (failed > 0) {
+  process.exit(1)
+}
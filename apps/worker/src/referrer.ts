@@ -0,0 +1,179 @@
+/**
+ * Referrer normalization for click analytics.
+ *
+ * Raw Referer headers are mostly unique URLs, and the big networks hide behind
+ * their own redirectors (t.co, lnkd.in, l.facebook.com, slack-redir.net), so
+ * grouping by the raw value is useless. Each click is stored with:
+ * - referrer_domain: lowercase host without "www." (or the app package for android-app:// referrers)
+ * - source: a canonical traffic source ('twitter', 'linkedin', 'slack', 'email', 'direct', ...)
+ * - utm_source / utm_medium / utm_campaign: from the referrer URL's query string, if present
+ *
+ * The raw referrer is still stored alongside.
+ */
+
+export interface UtmTags {
+  source: string | null
+  medium: string | null
+  campaign: string | null
+}
+
+export interface NormalizedReferrer {
+  domain: string | null
+  source: string
+  utm: UtmTags
+}
+
+// Stored UTM values are capped like the raw referrer, just shorter
+const MAX_UTM_LENGTH = 128
+
+// Source when there's no Referer header at all (typed URLs, apps, privacy settings)
+const DIRECT_SOURCE = 'direct'
+// Source for a referrer that doesn't match anything below
+const OTHER_SOURCE = 'other'
+
+// Canonical source per domain. A domain also matches its subdomains
+// ("mobile.twitter.com" → twitter), so list the registrable domain.
+const DOMAIN_SOURCES: Record<string, string> = {
+  't.co': 'twitter',
+  'twitter.com': 'twitter',
+  'x.com': 'twitter',
+  'lnkd.in': 'linkedin',
+  'linkedin.com': 'linkedin',
+  'slack.com': 'slack',
+  'slack-redir.net': 'slack',
+  'facebook.com': 'facebook',
+  'fb.me': 'facebook',
+  'instagram.com': 'instagram',
+  'threads.net': 'threads',
+  'reddit.com': 'reddit',
+  'news.ycombinator.com': 'hackernews',
+  'bsky.app': 'bluesky',
+  'discord.com': 'discord',
+  'discordapp.com': 'discord',
+  'teams.microsoft.com': 'teams',
+  't.me': 'telegram',
+  'web.telegram.org': 'telegram',
+  'web.whatsapp.com': 'whatsapp',
+  'wa.me': 'whatsapp',
+  'youtube.com': 'youtube',
+  'youtu.be': 'youtube',
+  'github.com': 'github',
+  'dev.to': 'devto',
+  'medium.com': 'medium',
+  'google.com': 'google',
+  'bing.com': 'bing',
+  'duckduckgo.com': 'duckduckgo',
+  // Webmail
+  'mail.google.com': 'email',
+  'outlook.live.com': 'email',
+  'outlook.office.com': 'email',
+  'outlook.office365.com': 'email',
+  'mail.yahoo.com': 'email',
+  'mail.proton.me': 'email',
+  'app.fastmail.com': 'email',
+}
+
+// Android apps send android-app://<package>/ as the referrer
+const APP_SOURCES: Record<string, string> = {
+  'com.twitter.android': 'twitter',
+  'com.linkedin.android': 'linkedin',
+  'com.slack': 'slack',
+  'com.facebook.katana': 'facebook',
+  'com.instagram.android': 'instagram',
+  'com.reddit.frontpage': 'reddit',
+  'com.discord': 'discord',
+  'com.microsoft.teams': 'teams',
+  'org.telegram.messenger': 'telegram',
+  'com.whatsapp': 'whatsapp',
+  'com.google.android.youtube': 'youtube',
+  'com.google.android.gm': 'email',
+  'com.microsoft.office.outlook': 'email',
+  'com.google.android.googlequicksearchbox': 'google',
+}
+
+// utm_source values people actually use, mapped to the same canonical names
+const UTM_SOURCE_ALIASES: Record<string, string> = {
+  twitter: 'twitter',
+  x: 'twitter',
+  linkedin: 'linkedin',
+  slack: 'slack',
+  facebook: 'facebook',
+  fb: 'facebook',
+  reddit: 'reddit',
+  hn: 'hackernews',
+  hackernews: 'hackernews',
+  discord: 'discord',
+  newsletter: 'email',
+  email: 'email',
+}
+
+// utm_medium values that mean the link was in an email
+const EMAIL_MEDIUMS = new Set(['email', 'e-mail', 'newsletter'])
+
+/**
+ * Look up a host (or package name) in a source table, walking up to parent domains.
+ */
+function lookupSource(host: string, table: Record<string, string>): string | null {
+  const labels = host.split('.')
+  for (let i = 0; i < labels.length - 1; i++) {
+    const source = table[labels.slice(i).join('.')]
+    if (source) return source
+  }
+  return null
+}
+
+/**
+ * Search engines use country domains (google.co.uk, google.de); match on the name.
+ */
+function searchEngineSource(host: string): string | null {
+  const match = host.match(/(?:^|\.)(google|bing|yandex|baidu|ecosia)\.[a-z.]+$/)
+  return match ? match[1] : null
+}
+
+function utmValue(params: URLSearchParams, key: string): string | null {
+  const value = params.get(key)?.trim().toLowerCase()
+  return value ? value.slice(0, MAX_UTM_LENGTH) : null
+}
+
+/**
+ * Normalize a Referer header into domain, source and UTM tags.
+ *
+ * @param referrer - Raw Referer header (null if absent)
+ */
+export function normalizeReferrer(referrer: string | null): NormalizedReferrer {
+  const noUtm: UtmTags = { source: null, medium: null, campaign: null }
+  if (!referrer || !referrer.trim()) {
+    return { domain: null, source: DIRECT_SOURCE, utm: noUtm }
+  }
+
+  let url: URL
+  try {
+    url = new URL(referrer.trim())
+  } catch {
+    return { domain: null, source: OTHER_SOURCE, utm: noUtm }
+  }
+
+  if (url.protocol === 'android-app:') {
+    const pkg = url.hostname.toLowerCase()
+    return { domain: pkg || null, source: (pkg && APP_SOURCES[pkg]) || OTHER_SOURCE, utm: noUtm }
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return { domain: null, source: OTHER_SOURCE, utm: noUtm }
+  }
+
+  const domain = url.hostname.toLowerCase().replace(/^www\./, '') || null
+  const utm: UtmTags = {
+    source: utmValue(url.searchParams, 'utm_source'),
+    medium: utmValue(url.searchParams, 'utm_medium'),
+    campaign: utmValue(url.searchParams, 'utm_campaign'),
+  }
+
+  // Known domains win; UTM tags only classify traffic from unknown sites
+  const source = (domain && (lookupSource(domain, DOMAIN_SOURCES) || searchEngineSource(domain)))
+    || (utm.medium && EMAIL_MEDIUMS.has(utm.medium) ? 'email' : null)
+    || (utm.source && UTM_SOURCE_ALIASES[utm.source])
+    || OTHER_SOURCE
+
+  return { domain, source, utm }
+}
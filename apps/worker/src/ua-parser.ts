@@ -90,6 +90,38 @@ function detectOS(ua: string): string {
   return 'Other'
 }
 
+// Link-unfurling crawlers used by chat apps and social networks, in match order.
+// iMessage previews identify as facebookexternalhit + Twitterbot, so they match Facebook.
+const SOCIAL_CRAWLERS: Array<[RegExp, string]> = [
+  [/slackbot|slack-imgproxy/i, 'Slack'],
+  [/discordbot/i, 'Discord'],
+  [/linkedinbot/i, 'LinkedIn'],
+  [/facebookexternalhit|facebot|meta-externalagent/i, 'Facebook'],
+  [/twitterbot/i, 'Twitter'],
+  [/telegrambot/i, 'Telegram'],
+  [/whatsapp/i, 'WhatsApp'],
+  [/skypeuripreview/i, 'Microsoft Teams'],
+  [/pinterestbot|pinterest\//i, 'Pinterest'],
+  [/redditbot/i, 'Reddit'],
+  [/mastodon\//i, 'Mastodon'],
+  [/bluesky|cardyb/i, 'Bluesky'],
+]
+
+/**
+ * Detect link-preview crawlers (Slack, Twitter/X, LinkedIn, Discord, ...).
+ * These fetch a link to build an unfurl card; they aren't real visitors.
+ *
+ * @returns The crawler's platform name, or null for everything else
+ */
+export function detectSocialCrawler(ua: string | null): string | null {
+  if (!ua) return null
+
+  for (const [pattern, name] of SOCIAL_CRAWLERS) {
+    if (pattern.test(ua)) return name
+  }
+  return null
+}
+
 // Minimum required length for HASH_SECRET (256 bits = 32 chars of entropy)
 const MIN_HASH_SECRET_LENGTH = 32
 
@@ -0,0 +1,71 @@
+import { escapeHtml } from './html'
+import type { OpenGraph } from './link-data'
+
+/**
+ * Open Graph page for social crawlers
+ *
+ * Slack, Twitter/X, LinkedIn, Discord etc. build link previews from the page
+ * they land on. We answer their request with our own meta tags instead of
+ * redirecting: whatever the link owner configured in the og_* columns, else a
+ * card with the short URL, the destination's host and the link's QR code.
+ * Real visitors still get the redirect.
+ */
+
+// og:image fallback when the link has none: its QR code, large enough for card previews
+const DEFAULT_OG_IMAGE_SIZE = 512
+
+/** og:description fallback: where the link goes */
+function defaultDescription(destination: string): string {
+  try {
+    return `Short link to ${new URL(destination).hostname}`
+  } catch {
+    return 'Short link on gitly.sh'
+  }
+}
+
+/**
+ * Render the unfurl page for a link.
+ *
+ * @param origin - Request origin (https://gitly.sh), used for absolute URLs
+ * @param slug - The link's slug
+ * @param destination - Default destination URL (linked from the body)
+ * @param og - The link's Open Graph overrides, if any
+ */
+export function renderUnfurlPage(origin: string, slug: string, destination: string, og: OpenGraph = {}): string {
+  const shortUrl = `${origin}/${slug}`
+  const title = og.title || `gitly.sh/${slug}`
+  const description = og.description || defaultDescription(destination)
+  const image = og.image || `${shortUrl}/qr?size=${DEFAULT_OG_IMAGE_SIZE}`
+
+  const tags: Array<[string, string, string]> = [
+    ['property', 'og:type', 'website'],
+    ['property', 'og:site_name', 'gitly.sh'],
+    ['property', 'og:url', shortUrl],
+    ['property', 'og:title', title],
+    ['property', 'og:image', image],
+    ['name', 'twitter:card', og.image ? 'summary_large_image' : 'summary'],
+    ['name', 'twitter:title', title],
+    ['name', 'twitter:image', image],
+    ['property', 'og:description', description],
+    ['name', 'twitter:description', description],
+    ['name', 'description', description],
+  ]
+
+  const metaHtml = tags
+    .map(([attr, key, value]) => `<meta ${attr}="${key}" content="${escapeHtml(value)}">`)
+    .join('\n  ')
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHtml(title)}</title>
+  ${metaHtml}
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p>${escapeHtml(description)}</p>
+<p><a href="${escapeHtml(destination)}">${escapeHtml(destination)}</a></p>
+</body>
+</html>`
+}
@@ -0,0 +1,119 @@
+/**
+ * Tests for the ZIP writer
+ * Run with: npx tsx zip.test.ts
+ */
+
+import { inflateRawSync } from 'node:zlib'
+import { crc32, createZipWriter } from './zip'
+
+const encoder = new TextEncoder()
+
+const crcCases: Array<{ input: string; expected: number; description: string }> = [
+  { input: '', expected: 0, description: 'Empty input' },
+  { input: '123456789', expected: 0xcbf43926, description: 'Standard check value' },
+  { input: 'The quick brown fox jumps over the lazy dog', expected: 0x414fa339, description: 'Pangram' },
+]
+
+interface ParsedEntry {
+  name: string
+  method: number
+  crc: number
+  data: Uint8Array
+}
+
+/**
+ * Read an archive back through its central directory, as unzip tools do.
+ */
+function readZip(zip: Uint8Array): { entries: ParsedEntry[]; flags: number[]; date: number } {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength)
+  const end = zip.length - 22
+  if (view.getUint32(end, true) !== 0x06054b50) throw new Error('No end of central directory record')
+
+  const count = view.getUint16(end + 10, true)
+  let position = view.getUint32(end + 16, true)
+  const entries: ParsedEntry[] = []
+  const flags: number[] = []
+  let date = 0
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(position, true) !== 0x02014b50) throw new Error(`Bad central directory header ${i}`)
+    const method = view.getUint16(position + 10, true)
+    const crc = view.getUint32(position + 16, true)
+    const compressedSize = view.getUint32(position + 20, true)
+    const nameLength = view.getUint16(position + 28, true)
+    const offset = view.getUint32(position + 42, true)
+    const name = new TextDecoder().decode(zip.subarray(position + 46, position + 46 + nameLength))
+    flags.push(view.getUint16(position + 8, true))
+    date = view.getUint16(position + 14, true)
+
+    if (view.getUint32(offset, true) !== 0x04034b50) throw new Error(`Bad local header for ${name}`)
+    const start = offset + 30 + view.getUint16(offset + 26, true) + view.getUint16(offset + 28, true)
+    const body = zip.subarray(start, start + compressedSize)
+    entries.push({ name, method, crc, data: method === 8 ? new Uint8Array(inflateRawSync(body)) : body })
+
+    position += 46 + nameLength
+  }
+
+  return { entries, flags, date }
+}
+
+async function runTests() {
+  console.log('Running ZIP tests...\n')
+
+  let passed = 0
+  let failed = 0
+
+  const check = (ok: boolean, description: string, detail: string) => {
+    if (ok) {
+      console.log(`✓ ${description}`)
+      passed++
+    } else {
+      console.log(`✗ ${description}`)
+      console.log(`  ${detail}`)
+      failed++
+    }
+  }
+
+  for (const { input, expected, description } of crcCases) {
+    const actual = crc32(encoder.encode(input))
+    check(actual === expected, `CRC-32: ${description}`, `Expected: ${expected.toString(16)}, Actual: ${actual.toString(16)}`)
+  }
+
+  // One compressible text file, one incompressible binary file
+  const text = encoder.encode('slug,url\n' + 'gh,https://github.com/u\n'.repeat(50))
+  const binary = new Uint8Array(64).map((_, i) => (i * 151 + 7) % 256)
+  const writer = createZipWriter(new Date(2026, 9, 19, 12, 30, 10))
+  const parts = [await writer.add('manifest.csv', text), await writer.add('café.png', binary), writer.finish()]
+  const zip = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let position = 0
+  for (const part of parts) {
+    zip.set(part, position)
+    position += part.length
+  }
+
+  let parsed: ReturnType<typeof readZip> | null = null
+  try {
+    parsed = readZip(zip)
+  } catch (error) {
+    check(false, 'Archive can be read back', String(error))
+  }
+
+  if (parsed) {
+    const [csv, png] = parsed.entries
+    check(parsed.entries.length === 2, 'Central directory lists every file', `Actual: ${parsed.entries.length}`)
+    check(csv.name === 'manifest.csv' && csv.method === 8, 'Compressible files are deflated', `Actual method: ${csv.method}`)
+    check(new TextDecoder().decode(csv.data) === new TextDecoder().decode(text), 'Deflated data round-trips', '')
+    check(csv.crc === crc32(text), 'CRC is of the uncompressed data', `Actual: ${csv.crc.toString(16)}`)
+    check(png.name === 'café.png' && parsed.flags.every((flag) => flag === 0x0800), 'Names are flagged as UTF-8', `Actual: ${png.name}, ${parsed.flags}`)
+    check(png.method === 0 && png.data.every((byte, i) => byte === binary[i]), 'Incompressible files are stored', `Actual method: ${png.method}`)
+    check(parsed.date === (((2026 - 1980) << 9) | (10 << 5) | 19), 'Modified date is in DOS format', `Actual: ${parsed.date}`)
+  }
+
+  console.log(`\n${passed} passed, ${failed} failed`)
+
+  if (failed > 0) {
+    process.exit(1)
+  }
+}
+
+runTests()
@@ -0,0 +1,138 @@
+/**
+ * Minimal ZIP writer for streamed downloads
+ *
+ * Each file is written as soon as it's added (local header followed by its
+ * data), and the central directory goes at the end, so archives can be
+ * streamed without holding every file in memory. Files are deflated with
+ * CompressionStream when that makes them smaller and stored otherwise
+ * (PNGs are already compressed).
+ *
+ * No ZIP64: fine for archives well under 4GB, which is all we produce.
+ *
+ * Kept free of Workers types so it can be unit tested with tsx.
+ */
+
+const METHOD_STORE = 0
+const METHOD_DEFLATE = 8
+const FLAG_UTF8 = 0x0800 // File names are UTF-8
+const VERSION = 20 // 2.0: deflate
+
+let crcTable: Uint32Array | undefined
+
+/**
+ * CRC-32 (IEEE) of the data, as stored in ZIP headers.
+ */
+export function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      crcTable[n] = c >>> 0
+    }
+  }
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/** MS-DOS date and time fields (local time, 2 second precision) */
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+interface CentralEntry {
+  name: Uint8Array
+  method: number
+  crc: number
+  compressedSize: number
+  size: number
+  offset: number
+}
+
+export interface ZipWriter {
+  /** Bytes for one file (header and data), to be written in order */
+  add(name: string, data: Uint8Array): Promise<Uint8Array>
+  /** Bytes for the central directory, which ends the archive */
+  finish(): Uint8Array
+}
+
+/**
+ * Start a ZIP archive. Write the bytes returned by add() and then finish()
+ * to the output in order.
+ */
+export function createZipWriter(modified: Date = new Date()): ZipWriter {
+  const encoder = new TextEncoder()
+  const stamp = dosDateTime(modified)
+  const entries: CentralEntry[] = []
+  let offset = 0
+
+  return {
+    async add(name, data) {
+      const deflated = await deflateRaw(data)
+      const method = deflated.length < data.length ? METHOD_DEFLATE : METHOD_STORE
+      const body = method === METHOD_DEFLATE ? deflated : data
+      const entry: CentralEntry = { name: encoder.encode(name), method, crc: crc32(data), compressedSize: body.length, size: data.length, offset }
+
+      const out = new Uint8Array(30 + entry.name.length + body.length)
+      const view = new DataView(out.buffer)
+      view.setUint32(0, 0x04034b50, true) // Local file header signature
+      view.setUint16(4, VERSION, true)
+      view.setUint16(6, FLAG_UTF8, true)
+      view.setUint16(8, method, true)
+      view.setUint16(10, stamp.time, true)
+      view.setUint16(12, stamp.date, true)
+      view.setUint32(14, entry.crc, true)
+      view.setUint32(18, entry.compressedSize, true)
+      view.setUint32(22, entry.size, true)
+      view.setUint16(26, entry.name.length, true)
+      view.setUint16(28, 0, true) // Extra field length
+      out.set(entry.name, 30)
+      out.set(body, 30 + entry.name.length)
+
+      entries.push(entry)
+      offset += out.length
+      return out
+    },
+
+    finish() {
+      const directorySize = entries.reduce((sum, entry) => sum + 46 + entry.name.length, 0)
+      const out = new Uint8Array(directorySize + 22)
+      const view = new DataView(out.buffer)
+      let position = 0
+
+      for (const entry of entries) {
+        view.setUint32(position, 0x02014b50, true) // Central directory header signature
+        view.setUint16(position + 4, VERSION, true) // Version made by
+        view.setUint16(position + 6, VERSION, true) // Version needed to extract
+        view.setUint16(position + 8, FLAG_UTF8, true)
+        view.setUint16(position + 10, entry.method, true)
+        view.setUint16(position + 12, stamp.time, true)
+        view.setUint16(position + 14, stamp.date, true)
+        view.setUint32(position + 16, entry.crc, true)
+        view.setUint32(position + 20, entry.compressedSize, true)
+        view.setUint32(position + 24, entry.size, true)
+        view.setUint16(position + 28, entry.name.length, true)
+        // Extra field, comment, disk number and attributes stay zero
+        view.setUint32(position + 42, entry.offset, true)
+        out.set(entry.name, position + 46)
+        position += 46 + entry.name.length
+      }
+
+      view.setUint32(position, 0x06054b50, true) // End of central directory signature
+      view.setUint16(position + 8, entries.length, true) // Entries on this disk
+      view.setUint16(position + 10, entries.length, true) // Total entries
+      view.setUint32(position + 12, directorySize, true)
+      view.setUint32(position + 16, offset, true) // Start of the central directory
+      return out
+    },
+  }
+}
@@ -0,0 +1,78 @@
+#!/usr/bin/env tsx
+
+/**
+ * hash-password.ts — Generate a password_hash value for links.csv
+ *
+ * Password-protected links store only a salted PBKDF2 hash, never the password,
+ * because links.csv lives in a public repo. The worker verifies submissions
+ * against this hash (apps/worker/src/crypto.ts verifyPassword).
+ *
+ * Usage:
+ *   pnpm --filter @gitly/scripts hash-password
+ *   (prompts for the password; or pipe it in: echo -n 'secret' | pnpm ... hash-password)
+ *
+ * Output format:
+ *   pbkdf2-sha256$<iterations>$<salt base64url>$<hash base64url>
+ */
+
+import { pbkdf2Sync, randomBytes } from "node:crypto";
+import { createInterface } from "node:readline/promises";
+import { Writable } from "node:stream";
+
+// Workers' PBKDF2 implementation rejects more than 100,000 iterations
+const ITERATIONS = 100_000;
+const SALT_BYTES = 16;
+const HASH_BYTES = 32;
+
+// Matches MAX_PASSWORD_LENGTH in apps/worker/src/password.ts
+const MAX_PASSWORD_LENGTH = 256;
+
+async function readPassword(): Promise<string> {
+  if (!process.stdin.isTTY) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+    return Buffer.concat(chunks).toString("utf-8").replace(/\r?\n$/, "");
+  }
+
+  // Don't echo what is typed, so the password stays out of terminal scrollback
+  const muted = new Writable({
+    write(_chunk, _encoding, callback) {
+      callback();
+    },
+  });
+  const rl = createInterface({ input: process.stdin, output: muted, terminal: true });
+  process.stderr.write("Password: ");
+  try {
+    return await rl.question("");
+  } finally {
+    rl.close();
+    process.stderr.write("\n");
+  }
+}
+
+function hashPassword(password: string): string {
+  const salt = randomBytes(SALT_BYTES);
+  const hash = pbkdf2Sync(password, salt, ITERATIONS, HASH_BYTES, "sha256");
+  return `pbkdf2-sha256$${ITERATIONS}$${salt.toString("base64url")}$${hash.toString("base64url")}`;
+}
+
+async function main(): Promise<void> {
+  const password = await readPassword();
+
+  if (!password) {
+    console.error("❌ Password must not be empty");
+    process.exit(1);
+  }
+  if (password.length > MAX_PASSWORD_LENGTH) {
+    console.error(`❌ Password too long (max ${MAX_PASSWORD_LENGTH} characters)`);
+    process.exit(1);
+  }
+
+  // Only the hash goes to stdout so it can be piped or copied straight into links.csv
+  console.log(hashPassword(password));
+}
+
+main().catch((error) => {
+  console.error("❌ Failed to hash password:", error);
+  process.exit(1);
+});
@@ -0,0 +1,131 @@
+/**
+ * Tests for the destination reachability check
+ * Run with: npx tsx link-reachability.test.ts
+ *
+ * Runs a local HTTP stub server. Test URLs use https://stub.test/...; the injected
+ * fetch routes them to the stub, so https → http downgrades can be tested too.
+ */
+
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { checkUrl, checkUrls, ReachabilityOptions } from "./link-reachability";
+
+// path → [status, Location header?, delay ms?]; HEAD-only failures are simulated by /head-*
+const routes: Record<string, [number, string?, number?]> = {
+  "/ok": [200],
+  "/gone": [410],
+  "/missing": [404],
+  "/broken": [503],
+  "/forbidden": [403],
+  "/moved": [301, "https://stub.test/ok"],
+  "/moved-relative": [302, "/ok"],
+  "/chain-1": [301, "https://stub.test/chain-2"],
+  "/chain-2": [302, "https://stub.test/chain-3"],
+  "/chain-3": [301, "https://stub.test/ok"],
+  "/downgrade": [301, "http://stub.test/ok"],
+  "/moved-to-missing": [302, "https://stub.test/missing"],
+  "/loop": [302, "https://stub.test/loop"],
+  "/no-location": [302],
+  "/slow": [200, undefined, 2000],
+};
+
+let requests: string[] = [];
+
+function startStub(): Promise<Server> {
+  const server = createServer((req, res) => {
+    const path = req.url || "/";
+    requests.push(`${req.method} ${path}`);
+
+    // Servers that reject HEAD but serve GET
+    if (path === "/head-not-allowed" || path === "/head-404") {
+      res.writeHead(req.method === "HEAD" ? (path === "/head-404" ? 404 : 405) : 200);
+      res.end();
+      return;
+    }
+
+    const [status, location, delay] = routes[path] || [404];
+    setTimeout(() => {
+      res.writeHead(status, location ? { Location: location } : {});
+      res.end(req.method === "GET" ? "body" : undefined);
+    }, delay || 0);
+  });
+
+  return new Promise((resolve) => server.listen(0, "127.0.0.1", () => resolve(server)));
+}
+
+const cases: Array<{
+  path: string;
+  severity: "ok" | "warning" | "error";
+  status: number | null;
+  message?: string; // Substring of the reported message
+  description: string;
+}> = [
+  { path: "/ok", severity: "ok", status: 200, description: "200 is reachable" },
+  { path: "/moved", severity: "ok", status: 200, description: "Follows a redirect" },
+  { path: "/moved-relative", severity: "ok", status: 200, description: "Follows a relative redirect" },
+  { path: "/chain-1", severity: "ok", status: 200, description: "Follows a redirect chain" },
+  { path: "/head-not-allowed", severity: "ok", status: 200, description: "Falls back to GET on 405" },
+  { path: "/head-404", severity: "ok", status: 200, description: "Falls back to GET when HEAD 404s" },
+  { path: "/missing", severity: "error", status: 404, message: "HTTP 404", description: "404 fails" },
+  { path: "/gone", severity: "error", status: 410, message: "HTTP 410", description: "410 fails" },
+  { path: "/broken", severity: "error", status: 503, message: "HTTP 503", description: "5xx fails" },
+  { path: "/forbidden", severity: "warning", status: 403, message: "HTTP 403", description: "403 is only a warning" },
+  { path: "/moved-to-missing", severity: "error", status: 404, description: "Redirect to a 404 fails" },
+  { path: "/downgrade", severity: "error", status: 301, message: "insecure http://stub.test/ok", description: "https → http downgrade fails" },
+  { path: "/loop", severity: "error", status: null, message: "More than 3 redirects", description: "Redirect loop stops at the limit" },
+  { path: "/no-location", severity: "error", status: 302, message: "without a Location header", description: "Redirect without Location fails" },
+  { path: "/slow", severity: "error", status: null, message: "Timed out", description: "Slow server times out" },
+];
+
+async function runTests() {
+  console.log("Running reachability tests...\n");
+
+  const server = await startStub();
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const options: ReachabilityOptions = {
+    timeoutMs: 500,
+    concurrency: 4,
+    maxRedirects: 3,
+    fetchImpl: (input, init) => fetch(String(input).replace(/^https?:\/\/stub\.test/, base), init),
+  };
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const { path, severity, status, message, description } of cases) {
+    const result = await checkUrl(`https://stub.test${path}`, options);
+
+    if (result.severity === severity && result.status === status && (!message || result.message?.includes(message))) {
+      console.log(`✓ ${description}`);
+      passed++;
+    } else {
+      console.log(`✗ ${description}`);
+      console.log(`  Expected: ${severity} / ${status} / ${message ?? "-"}`);
+      console.log(`  Actual: ${result.severity} / ${result.status} / ${result.message}`);
+      failed++;
+    }
+  }
+
+  // Duplicate URLs are requested once
+  requests = [];
+  const results = await checkUrls(["https://stub.test/ok", "https://stub.test/ok", "https://stub.test/missing"], options);
+  const okRequests = requests.filter((r) => r.endsWith(" /ok")).length;
+  if (results.size === 2 && okRequests === 1 && results.get("https://stub.test/missing")?.severity === "error") {
+    console.log("✓ Duplicate URLs are checked once");
+    passed++;
+  } else {
+    console.log("✗ Duplicate URLs are checked once");
+    console.log(`  Results: ${results.size}, requests: ${requests.join(", ")}`);
+    failed++;
+  }
+
+  server.close();
+
+  console.log(`\n${passed} passed, ${failed} failed`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runTests();
@@ -0,0 +1,127 @@
+/**
+ * link-reachability.ts — Check that destination URLs actually respond
+ *
+ * Used by sync-links.ts when CHECK_REACHABILITY=true (ADR-005: "URL is valid and
+ * reachable"). Each URL gets a HEAD request (retried as GET on a 4xx/5xx),
+ * redirects are followed by hand so every hop can be inspected, and problems are
+ * reported per URL:
+ * - error: 404/410/5xx, timeouts, network failures, redirect loops, and
+ *   redirects from https:// to http:// (a downgrade the visitor would follow)
+ * - warning: other 4xx (401/403/429 are usually logins or bot protection that a
+ *   real browser gets past, so they don't fail the check)
+ *
+ * fetch is injectable so tests can point it at a local stub server.
+ */
+
+export interface ReachabilityOptions {
+  timeoutMs: number;
+  concurrency: number;
+  maxRedirects: number;
+  fetchImpl?: typeof fetch;
+}
+
+export interface ReachabilityResult {
+  url: string;
+  finalUrl: string;
+  status: number | null; // Final HTTP status (null if the request failed)
+  severity: "ok" | "warning" | "error";
+  message: string | null;
+}
+
+export const DEFAULT_REACHABILITY_OPTIONS: ReachabilityOptions = {
+  timeoutMs: 10_000,
+  concurrency: 8,
+  maxRedirects: 5,
+};
+
+const USER_AGENT = "gitly.sh-link-validator/1.0 (+https://github.com/andrewmurphyio/gitly.sh)";
+
+/**
+ * Whether a final status should fail the check (vs. only being reported).
+ */
+function isDeadStatus(status: number): boolean {
+  return status === 404 || status === 410 || status >= 500;
+}
+
+async function request(url: string, method: string, options: ReachabilityOptions): Promise<Response> {
+  const fetchImpl = options.fetchImpl ?? fetch;
+  const response = await fetchImpl(url, {
+    method,
+    redirect: "manual",
+    headers: { "User-Agent": USER_AGENT },
+    signal: AbortSignal.timeout(options.timeoutMs),
+  });
+  // Only the status and headers matter; don't download the page
+  await response.body?.cancel();
+  return response;
+}
+
+/**
+ * Check a single URL, following redirects.
+ */
+export async function checkUrl(url: string, options: ReachabilityOptions = DEFAULT_REACHABILITY_OPTIONS): Promise<ReachabilityResult> {
+  let current = url;
+
+  try {
+    for (let hop = 0; hop <= options.maxRedirects; hop++) {
+      // Some servers reject or mishandle HEAD (405, 403, even 404); confirm with GET
+      let response = await request(current, "HEAD", options);
+      if (response.status >= 400) {
+        response = await request(current, "GET", options);
+      }
+
+      if (response.status >= 300 && response.status < 400 && response.status !== 304) {
+        const location = response.headers.get("location");
+        if (!location) {
+          return { url, finalUrl: current, status: response.status, severity: "error", message: `HTTP ${response.status} redirect without a Location header` };
+        }
+
+        const next = new URL(location, current);
+        if (new URL(current).protocol === "https:" && next.protocol === "http:") {
+          return { url, finalUrl: next.toString(), status: response.status, severity: "error", message: `Redirects to insecure ${next.toString()}` };
+        }
+        current = next.toString();
+        continue;
+      }
+
+      if (isDeadStatus(response.status)) {
+        return { url, finalUrl: current, status: response.status, severity: "error", message: `HTTP ${response.status}` };
+      }
+      if (response.status >= 400) {
+        return { url, finalUrl: current, status: response.status, severity: "warning", message: `HTTP ${response.status} (may block automated requests)` };
+      }
+      return { url, finalUrl: current, status: response.status, severity: "ok", message: null };
+    }
+
+    return { url, finalUrl: current, status: null, severity: "error", message: `More than ${options.maxRedirects} redirects` };
+  } catch (err) {
+    const name = err instanceof Error ? err.name : "";
+    const message = name === "TimeoutError" || name === "AbortError"
+      ? `Timed out after ${options.timeoutMs / 1000}s`
+      : `Request failed: ${err instanceof Error && err.cause ? err.cause : err}`;
+    return { url, finalUrl: current, status: null, severity: "error", message };
+  }
+}
+
+/**
+ * Check many URLs with at most `concurrency` requests in flight.
+ * Duplicate URLs are only requested once. Results are keyed by URL.
+ */
+export async function checkUrls(
+  urls: string[],
+  options: ReachabilityOptions = DEFAULT_REACHABILITY_OPTIONS
+): Promise<Map<string, ReachabilityResult>> {
+  const unique = Array.from(new Set(urls));
+  const results = new Map<string, ReachabilityResult>();
+  let next = 0;
+
+  const worker = async () => {
+    while (next < unique.length) {
+      const url = unique[next++];
+      results.set(url, await checkUrl(url, options));
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(options.concurrency, unique.length) }, worker));
+  return results;
+}
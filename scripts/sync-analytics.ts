@@ -44,6 +44,7 @@ interface AnalyticsResponse {
     count: number;
   };
   clicks: Click[];
+  next_cursor: string | null; // Pass back as ?cursor= to fetch the next page
 }
 
 interface GroupedClicks {
@@ -72,6 +73,9 @@ if (!API_KEY) {
 const urlDomain = new URL(API_URL).hostname;
 console.log(`Using API: ${urlDomain}`);
 
+// Clicks per API request (the API pages with next_cursor; max 5000)
+const PAGE_SIZE = 1000;
+
 // Fetch clicks from the last 70 minutes (60 + 10 overlap buffer)
 const BUFFER_MINUTES = 70;
 const now = Math.floor(Date.now() / 1000);
@@ -91,17 +95,14 @@ function escapeCSV(value: string | null | undefined): string {
   return str;
 }
 
-// ─────────────────────────────────────────────────────────────────────────────
-// Main
-// ─────────────────────────────────────────────────────────────────────────────
-
-async function main(): Promise<void> {
-  console.log(
-    `Fetching clicks from ${new Date(since * 1000).toISOString()} to ${new Date(now * 1000).toISOString()}`
-  );
+/**
+ * Fetch one page of clicks. Exits the process with a hint on API errors.
+ */
+async function fetchClickPage(cursor: string | null): Promise<AnalyticsResponse> {
+  const params = new URLSearchParams({ since: String(since), until: String(now), limit: String(PAGE_SIZE) });
+  if (cursor) params.set("cursor", cursor);
 
-  // Fetch analytics data
-  const endpoint = `${API_URL}/api/analytics?since=${since}&until=${now}`;
+  const endpoint = `${API_URL}/api/analytics?${params}`;
   const response = await fetch(endpoint, {
     headers: {
       Authorization: `Bearer ${API_KEY}`,
@@ -124,10 +125,30 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
-  const data = (await response.json()) as AnalyticsResponse;
-  console.log(`Fetched ${data.meta.count} clicks`);
+  return (await response.json()) as AnalyticsResponse;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Main
+// ─────────────────────────────────────────────────────────────────────────────
+
+async function main(): Promise<void> {
+  console.log(
+    `Fetching clicks from ${new Date(since * 1000).toISOString()} to ${new Date(now * 1000).toISOString()}`
+  );
+
+  // Page through the range until the API stops returning a cursor
+  const clicks: Click[] = [];
+  let cursor: string | null = null;
+  do {
+    const page = await fetchClickPage(cursor);
+    clicks.push(...page.clicks);
+    cursor = page.next_cursor;
+  } while (cursor);
+
+  console.log(`Fetched ${clicks.length} clicks`);
 
-  if (data.meta.count === 0) {
+  if (clicks.length === 0) {
     console.log("No new clicks to process");
     return;
   }
@@ -135,7 +156,7 @@ async function main(): Promise<void> {
   // Group clicks by user and date
   const byUserAndDate = new Map<string, GroupedClicks>();
 
-  for (const click of data.clicks) {
+  for (const click of clicks) {
     const date = new Date(click.clicked_at * 1000);
     const dateStr = date.toISOString().split("T")[0]; // YYYY-MM-DD
     const [year, month, day] = dateStr.split("-");
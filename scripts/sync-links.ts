@@ -6,8 +6,20 @@
  * - Real CSV parsing (handles commas in URLs, quoted fields)
  * - Slug validation (1-50 chars, alphanumeric + hyphens, see #119)
  * - URL validation (https:// only)
+ * - Optional expires_at column (ISO 8601 date or datetime)
+ * - Optional prefix flag (forward /:slug/extra/path to url + /extra/path)
+ * - Optional forward_query flag and utm_source/utm_medium/utm_campaign defaults
+ * - Optional ios_url/android_url/desktop_url per-platform destinations
+ * - Optional geo column: space-separated country overrides (US=https://... GB=https://...)
+ * - Optional split column: weighted A/B destinations (70=https://... 30=https://...)
+ * - Optional password_hash column (generated by hash-password.ts, never the plaintext)
+ * - Optional redirect_type column (301, 302, 307 or 308; default 302)
+ * - Optional og_title/og_description/og_image for social link previews
  * - Duplicate slug detection across all users
  * - Syncs to both KV (for fast redirects) and D1 (for analytics/admin)
+ * - Plans against current KV/D1 state: updates list the columns that changed,
+ *   and slugs removed from links.csv are deleted from KV and tombstoned in D1
+ *   (click history is kept)
  *
  * Usage:
  *   pnpm --filter @gitly/scripts sync-links
@@ -17,12 +29,21 @@
  *   CLOUDFLARE_ACCOUNT_ID - Account ID
  *   KV_NAMESPACE_ID       - KV namespace ID for links
  *   D1_DATABASE_ID        - D1 database ID for analytics
- *   DRY_RUN               - If "true", validate only (no KV/D1 writes)
+ *   DRY_RUN               - If "true", validate only (no KV/D1 writes). Prints the
+ *                           full sync plan when Cloudflare credentials are available.
+ *   ALLOW_MASS_DELETE     - If "true", skip the guard that refuses to remove more than
+ *                           MAX_DELETE_RATIO of live links in a single run
+ *   CHECK_REACHABILITY    - If "true", request every destination URL after validation
+ *                           and fail on dead links (see link-reachability.ts)
+ *   REACHABILITY_FILES    - Whitespace-separated links.csv paths (relative to the repo
+ *                           root) to limit the reachability check to; default all
+ *   REACHABILITY_TIMEOUT_MS, REACHABILITY_CONCURRENCY - Tune the reachability check
  */
 
 import { parse } from "csv-parse/sync";
 import { readFileSync, readdirSync, existsSync } from "fs";
 import { join, relative } from "path";
+import { checkUrls, DEFAULT_REACHABILITY_OPTIONS, ReachabilityOptions } from "./link-reachability";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Types
@@ -31,10 +52,51 @@ import { join, relative } from "path";
 interface LinkRecord {
   slug: string;
   url: string;
+  expiresAt: string; // Raw expires_at column (empty = never expires)
+  prefix: string; // Raw prefix flag (empty = exact match only)
+  forwardQuery: string; // Raw forward_query flag (empty = drop incoming query string)
+  utmSource: string;
+  utmMedium: string;
+  utmCampaign: string;
+  iosUrl: string;
+  androidUrl: string;
+  desktopUrl: string;
+  geo: string; // Raw geo column: "US=https://... GB=https://..."
+  split: string; // Raw split column: "70=https://... 30=https://..."
+  passwordHash: string; // PBKDF2 hash from hash-password.ts (empty = public link)
+  redirectType: string; // Raw redirect_type column (empty = 302)
+  ogTitle: string;
+  ogDescription: string;
+  ogImage: string;
   file: string;
   line: number;
 }
 
+/** A live (non-tombstoned) link row in D1 */
+interface RemoteLink {
+  slug: string;
+  url: string;
+  expiresAt: number | null;
+}
+
+interface RemoteState {
+  kvKeys: Set<string>;
+  kvValues: Map<string, Record<string, unknown>>; // Current LinkData of links that are synced again
+  d1Links: Map<string, RemoteLink>;
+}
+
+interface LinkUpdate {
+  link: LinkRecord;
+  changed: string[]; // links.csv columns whose value differs from KV/D1
+}
+
+interface SyncPlan {
+  create: LinkRecord[]; // Missing from KV or D1
+  update: LinkUpdate[]; // Any KV or D1 field changed
+  unchanged: LinkRecord[];
+  remove: string[]; // Live remotely but no longer in any links.csv
+}
+
 interface ValidationError {
   file: string;
   line: number;
@@ -107,6 +169,276 @@ function validateUrl(url: string): string | null {
   }
 }
 
+/**
+ * Validate an optional expires_at value.
+ * - Date only (YYYY-MM-DD): link expires at the end of that day (UTC)
+ * - Datetime: must be ISO 8601 with an explicit timezone (Z or ±HH:MM)
+ */
+function validateExpiresAt(value: string): string | null {
+  if (!value) return null; // Optional column
+
+  const isDate = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const isDateTime = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/.test(value);
+
+  if (!isDate && !isDateTime) {
+    return "Use YYYY-MM-DD or an ISO 8601 datetime with timezone (e.g. 2026-03-01T18:00:00Z)";
+  }
+
+  if (isNaN(Date.parse(value))) {
+    return `Invalid date: ${value}`;
+  }
+
+  // Date.parse rolls days past the end of the month over (2026-02-30 is March 2)
+  const [year, month, day] = value.slice(0, 10).split("-").map(Number);
+  const calendarDate = new Date(Date.UTC(year, month - 1, day));
+  if (calendarDate.getUTCFullYear() !== year || calendarDate.getUTCMonth() !== month - 1 || calendarDate.getUTCDate() !== day) {
+    return `Invalid date: ${value}`;
+  }
+
+  return null;
+}
+
+/**
+ * Convert a validated expires_at value to a Unix timestamp (seconds).
+ * Date-only values expire at midnight UTC at the end of that day.
+ */
+function parseExpiresAt(value: string): number | null {
+  if (!value) return null;
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return Math.floor(Date.parse(`${value}T00:00:00Z`) / 1000) + 24 * 60 * 60;
+  }
+
+  return Math.floor(Date.parse(value) / 1000);
+}
+
+/**
+ * Validate an optional boolean flag column (true/false, case-insensitive, empty = false).
+ */
+function validateFlag(value: string): string | null {
+  if (!value) return null;
+  if (!/^(true|false)$/i.test(value)) {
+    return `Expected true or false (got "${value}")`;
+  }
+  return null;
+}
+
+function parseFlag(value: string): boolean {
+  return value.toLowerCase() === "true";
+}
+
+// UTM values end up in every redirect URL; keep them short and printable
+const MAX_UTM_LENGTH = 100;
+
+function validateUtmValue(value: string): string | null {
+  if (!value) return null;
+  if (value.length > MAX_UTM_LENGTH) return `Too long (${value.length}/${MAX_UTM_LENGTH})`;
+  if (/[\x00-\x1f\x7f]/.test(value)) return "Contains control characters";
+  return null;
+}
+
+/**
+ * Build the LinkData utm object, omitting it entirely when no defaults are set.
+ */
+function buildUtm(link: LinkRecord): { source?: string; medium?: string; campaign?: string } | undefined {
+  if (!link.utmSource && !link.utmMedium && !link.utmCampaign) return undefined;
+  return {
+    source: link.utmSource || undefined,
+    medium: link.utmMedium || undefined,
+    campaign: link.utmCampaign || undefined,
+  };
+}
+
+/**
+ * Build the LinkData targets object, omitting it entirely when no overrides are set.
+ */
+function buildTargets(link: LinkRecord): { ios?: string; android?: string; desktop?: string } | undefined {
+  if (!link.iosUrl && !link.androidUrl && !link.desktopUrl) return undefined;
+  return {
+    ios: link.iosUrl || undefined,
+    android: link.androidUrl || undefined,
+    desktop: link.desktopUrl || undefined,
+  };
+}
+
+/**
+ * Validate the optional geo column: space-separated CC=url pairs.
+ * Country codes are ISO 3166-1 alpha-2 as reported by Cloudflare's cf.country
+ * (letters, plus Cloudflare's special codes like T1 for Tor).
+ */
+function validateGeo(value: string): string | null {
+  if (!value) return null;
+
+  const seen = new Set<string>();
+  for (const pair of value.split(/\s+/)) {
+    const match = pair.match(/^([A-Za-z][A-Za-z0-9])=(.+)$/);
+    if (!match) {
+      return `Expected CC=https://... pairs separated by spaces (got "${pair}")`;
+    }
+
+    const country = match[1].toUpperCase();
+    if (seen.has(country)) return `Duplicate country ${country}`;
+    seen.add(country);
+
+    const urlError = validateUrl(match[2]);
+    if (urlError) return `${country}: ${urlError}`;
+  }
+
+  return null;
+}
+
+/**
+ * Convert a validated geo column to a country → URL map.
+ */
+function parseGeo(value: string): Record<string, string> | undefined {
+  if (!value) return undefined;
+
+  const geo: Record<string, string> = {};
+  for (const pair of value.split(/\s+/)) {
+    const separator = pair.indexOf("=");
+    geo[pair.slice(0, separator).toUpperCase()] = pair.slice(separator + 1);
+  }
+  return geo;
+}
+
+const MIN_SPLIT_ARMS = 2;
+const MAX_SPLIT_ARMS = 10;
+const MAX_SPLIT_WEIGHT = 1000;
+
+/**
+ * Validate the optional split column: space-separated weight=url pairs.
+ * Weights are relative positive integers (70=... 30=... is a 70/30 split).
+ */
+function validateSplit(value: string): string | null {
+  if (!value) return null;
+
+  const pairs = value.split(/\s+/);
+  if (pairs.length < MIN_SPLIT_ARMS || pairs.length > MAX_SPLIT_ARMS) {
+    return `Expected ${MIN_SPLIT_ARMS}-${MAX_SPLIT_ARMS} destinations (got ${pairs.length})`;
+  }
+
+  for (const pair of pairs) {
+    const match = pair.match(/^(\d+)=(.+)$/);
+    if (!match) {
+      return `Expected weight=https://... pairs separated by spaces (got "${pair}")`;
+    }
+
+    const weight = Number(match[1]);
+    if (weight < 1 || weight > MAX_SPLIT_WEIGHT) {
+      return `Weight must be between 1 and ${MAX_SPLIT_WEIGHT} (got ${match[1]})`;
+    }
+
+    const urlError = validateUrl(match[2]);
+    if (urlError) return `${match[2]}: ${urlError}`;
+  }
+
+  return null;
+}
+
+/**
+ * Convert a validated split column to weighted arms labelled a, b, c, ...
+ * in column order. Labels are what clicks.variant records, so reordering the
+ * column changes which arm is which.
+ */
+function parseSplit(value: string): Array<{ label: string; url: string; weight: number }> | undefined {
+  if (!value) return undefined;
+
+  return value.split(/\s+/).map((pair, index) => {
+    const separator = pair.indexOf("=");
+    return {
+      label: String.fromCharCode(97 + index), // a, b, c, ...
+      url: pair.slice(separator + 1),
+      weight: Number(pair.slice(0, separator)),
+    };
+  });
+}
+
+// Format written by hash-password.ts (iterations capped at 100,000 by Workers' PBKDF2)
+const PASSWORD_HASH_PATTERN = /^pbkdf2-sha256\$(\d+)\$[A-Za-z0-9_-]{16,}\$[A-Za-z0-9_-]{32,}$/;
+const MAX_PBKDF2_ITERATIONS = 100_000;
+
+/**
+ * Validate the optional password_hash column.
+ * Catches the easy mistake of pasting the password itself instead of its hash.
+ */
+function validatePasswordHash(value: string): string | null {
+  if (!value) return null;
+
+  const match = value.match(PASSWORD_HASH_PATTERN);
+  if (!match) {
+    return "Expected output of `pnpm --filter @gitly/scripts hash-password` (never the plaintext password)";
+  }
+
+  const iterations = Number(match[1]);
+  if (iterations < 1 || iterations > MAX_PBKDF2_ITERATIONS) {
+    return `Iterations must be between 1 and ${MAX_PBKDF2_ITERATIONS} (got ${match[1]})`;
+  }
+
+  return null;
+}
+
+const MAX_OG_TITLE_LENGTH = 200;
+const MAX_OG_DESCRIPTION_LENGTH = 500;
+
+/**
+ * Validate an og_title/og_description value (shown verbatim in link previews).
+ */
+function validateOgText(value: string, maxLength: number): string | null {
+  if (!value) return null;
+  if (value.length > maxLength) return `Too long (${value.length}/${maxLength})`;
+  if (/[\x00-\x1f\x7f]/.test(value)) return "Contains control characters";
+  return null;
+}
+
+/**
+ * Build the LinkData og object, omitting it entirely when no preview fields are set.
+ */
+function buildOpenGraph(link: LinkRecord): { title?: string; description?: string; image?: string } | undefined {
+  if (!link.ogTitle && !link.ogDescription && !link.ogImage) return undefined;
+  return {
+    title: link.ogTitle || undefined,
+    description: link.ogDescription || undefined,
+    image: link.ogImage || undefined,
+  };
+}
+
+const REDIRECT_TYPES = ["301", "302", "307", "308"];
+const PERMANENT_REDIRECT_TYPES = ["301", "308"];
+
+/**
+ * Validate the optional redirect_type column.
+ * Permanent redirects are cached by browsers and search engines, so they're
+ * only allowed for links that always send every visitor to the same place.
+ */
+function validateRedirectType(link: LinkRecord): string | null {
+  if (!link.redirectType) return null;
+
+  if (!REDIRECT_TYPES.includes(link.redirectType)) {
+    return `Expected one of ${REDIRECT_TYPES.join(", ")} (got "${link.redirectType}")`;
+  }
+
+  if (PERMANENT_REDIRECT_TYPES.includes(link.redirectType)) {
+    const conflicts = [
+      buildTargets(link) && "ios_url/android_url/desktop_url",
+      link.geo && "geo",
+      link.split && "split",
+      link.passwordHash && "password_hash",
+    ].filter(Boolean);
+    if (conflicts.length > 0) {
+      return `${link.redirectType} is permanent and can't be combined with ${conflicts.join(", ")}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Convert a validated redirect_type to the KV value (omitted for the 302 default).
+ */
+function parseRedirectType(value: string): number | undefined {
+  return value && value !== "302" ? Number(value) : undefined;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // CSV Parsing
 // ─────────────────────────────────────────────────────────────────────────────
@@ -127,6 +459,22 @@ function parseCSVFile(filePath: string, repoRoot: string): LinkRecord[] {
   return records.map((record: Record<string, string>, index: number) => ({
     slug: record.slug?.trim() || "",
     url: record.url?.trim() || "",
+    expiresAt: record.expires_at?.trim() || "",
+    prefix: record.prefix?.trim() || "",
+    forwardQuery: record.forward_query?.trim() || "",
+    utmSource: record.utm_source?.trim() || "",
+    utmMedium: record.utm_medium?.trim() || "",
+    utmCampaign: record.utm_campaign?.trim() || "",
+    iosUrl: record.ios_url?.trim() || "",
+    androidUrl: record.android_url?.trim() || "",
+    desktopUrl: record.desktop_url?.trim() || "",
+    geo: record.geo?.trim() || "",
+    split: record.split?.trim() || "",
+    passwordHash: record.password_hash?.trim() || "",
+    redirectType: record.redirect_type?.trim() || "",
+    ogTitle: record.og_title?.trim() || "",
+    ogDescription: record.og_description?.trim() || "",
+    ogImage: record.og_image?.trim() || "",
     file: relativePath,
     line: index + 2, // +2 for header row and 1-based indexing
   }));
@@ -154,10 +502,85 @@ function discoverCSVFiles(linksDir: string): string[] {
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
-// KV Sync
+// Reachability (opt-in)
 // ─────────────────────────────────────────────────────────────────────────────
 
-async function syncToKV(links: LinkRecord[]): Promise<void> {
+/**
+ * Every destination a link can send visitors to, labelled by CSV column.
+ */
+function destinationUrls(link: LinkRecord): Array<[string, string]> {
+  const urls: Array<[string, string]> = [["url", link.url]];
+  if (link.iosUrl) urls.push(["ios_url", link.iosUrl]);
+  if (link.androidUrl) urls.push(["android_url", link.androidUrl]);
+  if (link.desktopUrl) urls.push(["desktop_url", link.desktopUrl]);
+  for (const [country, url] of Object.entries(parseGeo(link.geo) || {})) {
+    urls.push([`geo ${country}`, url]);
+  }
+  for (const variant of parseSplit(link.split) || []) {
+    urls.push([`split ${variant.label}`, variant.url]);
+  }
+  return urls;
+}
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Request every destination of the given links. Warnings are printed;
+ * errors are returned for the caller to report.
+ */
+async function checkReachability(links: LinkRecord[]): Promise<ValidationError[]> {
+  const options: ReachabilityOptions = {
+    ...DEFAULT_REACHABILITY_OPTIONS,
+    timeoutMs: envInt("REACHABILITY_TIMEOUT_MS", DEFAULT_REACHABILITY_OPTIONS.timeoutMs),
+    concurrency: envInt("REACHABILITY_CONCURRENCY", DEFAULT_REACHABILITY_OPTIONS.concurrency),
+  };
+
+  const targets = links.flatMap((link) => destinationUrls(link).map(([column, url]) => ({ link, column, url })));
+  console.log(`🌐 Checking reachability of ${targets.length} URL(s) from ${links.length} link(s)...\n`);
+
+  const results = await checkUrls(targets.map((target) => target.url), options);
+  const errors: ValidationError[] = [];
+
+  for (const { link, column, url } of targets) {
+    const result = results.get(url);
+    if (!result || result.severity === "ok") continue;
+
+    const detail = `${column} ${url}: ${result.message}`;
+    if (result.severity === "warning") {
+      console.log(`   ⚠️  ${link.file}:${link.line} [${link.slug}] ${detail}`);
+    } else {
+      errors.push({ file: link.file, line: link.line, slug: link.slug, error: `Unreachable ${detail}` });
+    }
+  }
+
+  return errors;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Cloudflare API
+// ─────────────────────────────────────────────────────────────────────────────
+
+const CF_API_BASE = "https://api.cloudflare.com/client/v4";
+
+// KV bulk endpoints accept up to 10,000 keys per request
+const KV_BULK_LIMIT = 10000;
+
+// KV values are read one key per request; this many at a time
+const KV_READ_CONCURRENCY = 8;
+
+function hasCloudflareCredentials(): boolean {
+  return Boolean(
+    process.env.CLOUDFLARE_API_TOKEN &&
+      process.env.CLOUDFLARE_ACCOUNT_ID &&
+      process.env.KV_NAMESPACE_ID &&
+      process.env.D1_DATABASE_ID
+  );
+}
+
+function kvConfig(): { apiToken: string; baseUrl: string } {
   const apiToken = process.env.CLOUDFLARE_API_TOKEN;
   const accountId = process.env.CLOUDFLARE_ACCOUNT_ID;
   const namespaceId = process.env.KV_NAMESPACE_ID;
@@ -168,29 +591,312 @@ async function syncToKV(links: LinkRecord[]): Promise<void> {
     );
   }
 
+  return {
+    apiToken,
+    baseUrl: `${CF_API_BASE}/accounts/${accountId}/storage/kv/namespaces/${namespaceId}`,
+  };
+}
+
+/**
+ * Run a single statement against D1 via the REST API and return its rows.
+ * The /query endpoint expects a single {sql, params} object, not an array
+ * (D1 Workers binding supports batch, but REST API doesn't).
+ */
+async function d1Query<T = Record<string, unknown>>(sql: string, params: unknown[] = []): Promise<T[]> {
+  const apiToken = process.env.CLOUDFLARE_API_TOKEN;
+  const accountId = process.env.CLOUDFLARE_ACCOUNT_ID;
+  const databaseId = process.env.D1_DATABASE_ID;
+
+  if (!apiToken || !accountId || !databaseId) {
+    throw new Error(
+      "Missing required env vars: CLOUDFLARE_API_TOKEN, CLOUDFLARE_ACCOUNT_ID, D1_DATABASE_ID"
+    );
+  }
+
+  const response = await fetch(`${CF_API_BASE}/accounts/${accountId}/d1/database/${databaseId}/query`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiToken}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ sql, params }),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`D1 query failed: ${response.status} - ${error}`);
+  }
+
+  const result: any = await response.json();
+  if (!result.success) {
+    throw new Error(`D1 query failed: ${JSON.stringify(result.errors)}`);
+  }
+
+  return (result.result?.[0]?.results ?? []) as T[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Sync Plan
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Refuse to remove more than this share of live links in one run (protects
+// against a broken checkout or parse bug wiping every redirect)
+const MAX_DELETE_RATIO = 0.25;
+// Small removals are always allowed, even if they exceed the ratio
+const MASS_DELETE_MIN_COUNT = 5;
+
+async function fetchKVKeys(): Promise<Set<string>> {
+  const { apiToken, baseUrl } = kvConfig();
+  const keys = new Set<string>();
+  let cursor = "";
+
+  // List endpoint is paginated (max 1000 keys per page)
+  do {
+    const url = new URL(`${baseUrl}/keys`);
+    url.searchParams.set("limit", "1000");
+    if (cursor) url.searchParams.set("cursor", cursor);
+
+    const response = await fetch(url, {
+      headers: { Authorization: `Bearer ${apiToken}` },
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`KV key listing failed: ${response.status} - ${error}`);
+    }
+
+    const result: any = await response.json();
+    if (!result.success) {
+      throw new Error(`KV key listing failed: ${JSON.stringify(result.errors)}`);
+    }
+
+    for (const key of result.result) {
+      keys.add(key.name);
+    }
+    cursor = result.result_info?.cursor || "";
+  } while (cursor);
+
+  return keys;
+}
+
+/**
+ * Read the current KV values of the given keys. Legacy values (a bare URL
+ * string, see parseLinkData in the worker) are returned as { url }.
+ */
+async function fetchKVValues(keys: string[]): Promise<Map<string, Record<string, unknown>>> {
+  const { apiToken, baseUrl } = kvConfig();
+  const values = new Map<string, Record<string, unknown>>();
+  let next = 0;
+
+  const worker = async () => {
+    while (next < keys.length) {
+      const key = keys[next++];
+      const response = await fetch(`${baseUrl}/values/${encodeURIComponent(key)}`, {
+        headers: { Authorization: `Bearer ${apiToken}` },
+      });
+
+      // Deleted since the keys were listed: planned as a create
+      if (response.status === 404) continue;
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`KV read failed for ${key}: ${response.status} - ${error}`);
+      }
+
+      const raw = await response.text();
+      try {
+        values.set(key, JSON.parse(raw));
+      } catch {
+        values.set(key, { url: raw });
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(KV_READ_CONCURRENCY, keys.length) }, worker));
+  return values;
+}
+
+/**
+ * Current KV/D1 state. KV values are only read for the given slugs (the links
+ * being synced), since removed links just need their keys.
+ */
+async function fetchRemoteState(slugs: string[]): Promise<RemoteState> {
+  const kvKeys = await fetchKVKeys();
+  const kvValues = await fetchKVValues(slugs.filter((slug) => kvKeys.has(slug)));
+
+  const rows = await d1Query<{ slug: string; url: string; expires_at: number | null }>(
+    "SELECT slug, url, expires_at FROM links WHERE deleted_at IS NULL"
+  );
+  const d1Links = new Map<string, RemoteLink>();
+  for (const row of rows) {
+    d1Links.set(row.slug, { slug: row.slug, url: row.url, expiresAt: row.expires_at });
+  }
+
+  return { kvKeys, kvValues, d1Links };
+}
+
+// links.csv columns behind each KV LinkData field, for the plan's list of changes
+const LINK_DATA_COLUMNS: Record<string, string> = {
+  url: "url",
+  expiresAt: "expires_at",
+  createdBy: "owner folder",
+  prefix: "prefix",
+  forwardQuery: "forward_query",
+  utm: "utm_*",
+  targets: "ios_url/android_url/desktop_url",
+  geo: "geo",
+  split: "split",
+  passwordHash: "password_hash",
+  redirectType: "redirect_type",
+  og: "og_*",
+};
+
+/**
+ * links.csv columns of a link whose value differs from what KV and D1 hold.
+ * KV is compared as the serialized LinkData, so every field the worker reads is
+ * covered, not just the url and expiry kept in D1.
+ */
+function changedColumns(link: LinkRecord, d1Link: RemoteLink, kvValue: Record<string, unknown> | undefined): string[] {
+  const changed = new Set<string>();
+  if (d1Link.url !== link.url) changed.add("url");
+  if (d1Link.expiresAt !== parseExpiresAt(link.expiresAt)) changed.add("expires_at");
+
+  // Round-trip through JSON so unset fields compare as they are stored (absent)
+  const desired: Record<string, unknown> = JSON.parse(JSON.stringify(buildLinkData(link, 0)));
+  const current = kvValue ?? {};
+  for (const field of new Set([...Object.keys(desired), ...Object.keys(current)])) {
+    if (field === "createdAt") continue; // Rewritten on every sync
+    if (JSON.stringify(desired[field]) !== JSON.stringify(current[field])) {
+      changed.add(LINK_DATA_COLUMNS[field] ?? field);
+    }
+  }
+
+  return [...changed];
+}
+
+/**
+ * Diff the validated links against current KV/D1 state.
+ * Every valid link is still upserted on apply; the plan decides what to remove
+ * and gives reviewers a readable summary of what actually changes.
+ */
+function planSync(links: LinkRecord[], remote: RemoteState): SyncPlan {
+  const plan: SyncPlan = { create: [], update: [], unchanged: [], remove: [] };
+  const desired = new Set<string>();
+
+  for (const link of links) {
+    desired.add(link.slug);
+    const existing = remote.d1Links.get(link.slug);
+
+    if (!existing || !remote.kvValues.has(link.slug)) {
+      plan.create.push(link);
+      continue;
+    }
+
+    const changed = changedColumns(link, existing, remote.kvValues.get(link.slug));
+    if (changed.length > 0) {
+      plan.update.push({ link, changed });
+    } else {
+      plan.unchanged.push(link);
+    }
+  }
+
+  // Anything live in either store that no longer appears in a links.csv is removed
+  const remoteSlugs = new Set([...remote.kvKeys, ...remote.d1Links.keys()]);
+  for (const slug of remoteSlugs) {
+    if (!desired.has(slug)) {
+      plan.remove.push(slug);
+    }
+  }
+  plan.remove.sort();
+
+  return plan;
+}
+
+function printPlan(plan: SyncPlan, remote: RemoteState): void {
+  console.log("📝 Sync plan:\n");
+
+  for (const link of plan.create) {
+    console.log(`   + ${link.slug}${parseFlag(link.prefix) ? "/*" : ""} → ${link.url}`);
+  }
+  for (const { link, changed } of plan.update) {
+    const previous = remote.d1Links.get(link.slug);
+    console.log(`   ~ ${link.slug}${parseFlag(link.prefix) ? "/*" : ""} → ${link.url}`);
+    console.log(`       changed: ${changed.join(", ")}`);
+    if (previous && previous.url !== link.url) {
+      console.log(`       (was ${previous.url})`);
+    }
+  }
+  for (const slug of plan.remove) {
+    const previous = remote.d1Links.get(slug);
+    console.log(`   - ${slug}${previous ? ` (was ${previous.url})` : ""}`);
+  }
+
+  console.log(
+    `\n   ${plan.create.length} to create, ${plan.update.length} to update, ` +
+      `${plan.remove.length} to remove, ${plan.unchanged.length} unchanged\n`
+  );
+}
+
+/**
+ * Returns an error message if the plan removes a suspiciously large share of live links.
+ */
+function checkDeleteGuard(plan: SyncPlan, remote: RemoteState): string | null {
+  const liveCount = new Set([...remote.kvKeys, ...remote.d1Links.keys()]).size;
+  if (plan.remove.length <= MASS_DELETE_MIN_COUNT || liveCount === 0) return null;
+
+  const ratio = plan.remove.length / liveCount;
+  if (ratio <= MAX_DELETE_RATIO) return null;
+
+  return (
+    `Refusing to remove ${plan.remove.length} of ${liveCount} live links ` +
+    `(${Math.round(ratio * 100)}% > ${MAX_DELETE_RATIO * 100}%). ` +
+    `Set ALLOW_MASS_DELETE=true if this is intentional.`
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// KV Sync
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * KV value for a link: the full LinkData object the worker reads.
+ */
+function buildLinkData(link: LinkRecord, createdAt: number): Record<string, unknown> {
+  return {
+    url: link.url,
+    createdAt,
+    createdBy: link.file.split("/")[1] || "unknown", // Extract username from path
+    // Expired links stay in KV so the worker can answer 410 Gone instead of 404
+    expiresAt: parseExpiresAt(link.expiresAt) ?? undefined,
+    prefix: parseFlag(link.prefix) || undefined,
+    forwardQuery: parseFlag(link.forwardQuery) || undefined,
+    utm: buildUtm(link),
+    targets: buildTargets(link),
+    geo: parseGeo(link.geo),
+    split: parseSplit(link.split),
+    passwordHash: link.passwordHash || undefined,
+    redirectType: parseRedirectType(link.redirectType),
+    og: buildOpenGraph(link),
+  };
+}
+
+async function syncToKV(links: LinkRecord[]): Promise<void> {
+  const { apiToken, baseUrl } = kvConfig();
+
   // Use bulk write API for efficiency (up to 10,000 keys per request)
-  // Store full LinkData object for richer metadata
   const now = Math.floor(Date.now() / 1000);
   const bulkData = links.map((link) => ({
     key: link.slug,
-    value: JSON.stringify({
-      url: link.url,
-      createdAt: now,
-      createdBy: link.file.split("/")[1] || "unknown", // Extract username from path
-    }),
+    value: JSON.stringify(buildLinkData(link, now)),
   }));
 
-  const response = await fetch(
-    `https://api.cloudflare.com/client/v4/accounts/${accountId}/storage/kv/namespaces/${namespaceId}/bulk`,
-    {
-      method: "PUT",
-      headers: {
-        Authorization: `Bearer ${apiToken}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(bulkData),
-    }
-  );
+  const response = await fetch(`${baseUrl}/bulk`, {
+    method: "PUT",
+    headers: {
+      Authorization: `Bearer ${apiToken}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(bulkData),
+  });
 
   if (!response.ok) {
     const error = await response.text();
@@ -203,63 +909,83 @@ async function syncToKV(links: LinkRecord[]): Promise<void> {
   }
 }
 
-async function syncToD1(links: LinkRecord[]): Promise<void> {
-  const apiToken = process.env.CLOUDFLARE_API_TOKEN;
-  const accountId = process.env.CLOUDFLARE_ACCOUNT_ID;
-  const databaseId = process.env.D1_DATABASE_ID;
-
-  if (!apiToken || !accountId || !databaseId) {
-    throw new Error(
-      "Missing required env vars: CLOUDFLARE_API_TOKEN, CLOUDFLARE_ACCOUNT_ID, D1_DATABASE_ID"
-    );
-  }
-
-  const now = Math.floor(Date.now() / 1000);
-
-  // Batch all INSERT statements into a single D1 API request
-  // D1 HTTP API supports an array of {sql, params} objects in one request
-  // This is much more efficient than sequential HTTP requests (100 links = 1 API call vs 100)
-  const batchStatements = links.map((link) => {
-    const createdBy = link.file.split("/")[1] || "unknown";
-    return {
-      sql: `INSERT INTO links (slug, url, created_at, created_by, clicks) 
-            VALUES (?1, ?2, ?3, ?4, 0)
-            ON CONFLICT(slug) DO UPDATE SET url = ?2`,
-      params: [link.slug, link.url, now, createdBy],
-    };
-  });
-
-  // D1 REST API /query endpoint expects a single {sql, params} object, not an array
-  // Process statements individually (D1 Workers binding supports batch, but REST API doesn't)
-  const d1Url = `https://api.cloudflare.com/client/v4/accounts/${accountId}/d1/database/${databaseId}/query`;
-  const headers = {
-    Authorization: `Bearer ${apiToken}`,
-    "Content-Type": "application/json",
-  };
+async function deleteFromKV(slugs: string[]): Promise<void> {
+  const { apiToken, baseUrl } = kvConfig();
 
-  for (const stmt of batchStatements) {
-    const response = await fetch(d1Url, {
+  for (let i = 0; i < slugs.length; i += KV_BULK_LIMIT) {
+    const chunk = slugs.slice(i, i + KV_BULK_LIMIT);
+    const response = await fetch(`${baseUrl}/bulk/delete`, {
       method: "POST",
-      headers,
-      body: JSON.stringify(stmt),
+      headers: {
+        Authorization: `Bearer ${apiToken}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(chunk),
     });
 
     if (!response.ok) {
       const error = await response.text();
-      throw new Error(`D1 insert failed: ${response.status} - ${error}`);
+      throw new Error(`KV bulk delete failed: ${response.status} - ${error}`);
     }
 
     const result: any = await response.json();
     if (!result.success) {
-      throw new Error(`D1 insert failed: ${JSON.stringify(result.errors)}`);
+      throw new Error(`KV bulk delete failed: ${JSON.stringify(result.errors)}`);
     }
   }
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// D1 Sync
+// ─────────────────────────────────────────────────────────────────────────────
+
+async function syncToD1(links: LinkRecord[]): Promise<void> {
+  const now = Math.floor(Date.now() / 1000);
+
+  // Process statements individually (REST API has no batch endpoint).
+  // Re-adding a previously removed slug clears its tombstone. The owner is
+  // updated too: token scopes filter on created_by, so a slug re-created by
+  // another user must move to them.
+  for (const link of links) {
+    const createdBy = link.file.split("/")[1] || "unknown";
+    await d1Query(
+      `INSERT INTO links (slug, url, created_at, created_by, expires_at, clicks, password_protected) 
+       VALUES (?1, ?2, ?3, ?4, ?5, 0, ?6)
+       ON CONFLICT(slug) DO UPDATE SET url = ?2, created_by = ?4, expires_at = ?5, password_protected = ?6, deleted_at = NULL`,
+      [link.slug, link.url, now, createdBy, parseExpiresAt(link.expiresAt), link.passwordHash ? 1 : 0]
+    );
+  }
+}
+
+/**
+ * Tombstone removed links instead of deleting them: clicks reference links(slug),
+ * and historical analytics should survive a link being retired.
+ */
+async function tombstoneInD1(slugs: string[]): Promise<void> {
+  const now = Math.floor(Date.now() / 1000);
+
+  for (const slug of slugs) {
+    await d1Query(
+      "UPDATE links SET deleted_at = ?2 WHERE slug = ?1 AND deleted_at IS NULL",
+      [slug, now]
+    );
+  }
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Main
 // ─────────────────────────────────────────────────────────────────────────────
 
+function printValidationErrors(title: string, errors: ValidationError[]): void {
+  console.error(`❌ ${title}:\n`);
+  for (const err of errors) {
+    const location = err.line > 0 ? `${err.file}:${err.line}` : err.file;
+    const slug = err.slug ? ` [${err.slug}]` : "";
+    console.error(`   ${location}${slug}`);
+    console.error(`   └─ ${err.error}\n`);
+  }
+}
+
 async function main(): Promise<void> {
   const dryRun = process.env.DRY_RUN === "true";
   // Look for links dir relative to repo root (parent of scripts/)
@@ -329,6 +1055,152 @@ async function main(): Promise<void> {
       continue;
     }
 
+    // Validate optional expiry
+    const expiresAtError = validateExpiresAt(link.expiresAt);
+    if (expiresAtError) {
+      errors.push({
+        file: link.file,
+        line: link.line,
+        slug: link.slug,
+        error: `Invalid expires_at: ${expiresAtError}`,
+      });
+      continue;
+    }
+
+    // Validate optional prefix flag
+    const prefixError = validateFlag(link.prefix);
+    if (prefixError) {
+      errors.push({
+        file: link.file,
+        line: link.line,
+        slug: link.slug,
+        error: `Invalid prefix: ${prefixError}`,
+      });
+      continue;
+    }
+
+    // Validate query string options
+    const forwardQueryError = validateFlag(link.forwardQuery);
+    if (forwardQueryError) {
+      errors.push({
+        file: link.file,
+        line: link.line,
+        slug: link.slug,
+        error: `Invalid forward_query: ${forwardQueryError}`,
+      });
+      continue;
+    }
+
+    const utmFields: Array<[string, string]> = [
+      ["utm_source", link.utmSource],
+      ["utm_medium", link.utmMedium],
+      ["utm_campaign", link.utmCampaign],
+    ];
+    const utmError = utmFields
+      .map(([column, value]) => {
+        const error = validateUtmValue(value);
+        return error ? `Invalid ${column}: ${error}` : null;
+      })
+      .find((error) => error !== null);
+    if (utmError) {
+      errors.push({
+        file: link.file,
+        line: link.line,
+        slug: link.slug,
+        error: utmError,
+      });
+      continue;
+    }
+
+    // Validate optional per-platform URLs (same rules as the main URL)
+    const targetFields: Array<[string, string]> = [
+      ["ios_url", link.iosUrl],
+      ["android_url", link.androidUrl],
+      ["desktop_url", link.desktopUrl],
+    ];
+    const targetError = targetFields
+      .map(([column, value]) => {
+        const error = value ? validateUrl(value) : null;
+        return error ? `Invalid ${column}: ${error}` : null;
+      })
+      .find((error) => error !== null);
+    if (targetError) {
+      errors.push({
+        file: link.file,
+        line: link.line,
+        slug: link.slug,
+        error: targetError,
+      });
+      continue;
+    }
+
+    // Validate optional country overrides
+    const geoError = validateGeo(link.geo);
+    if (geoError) {
+      errors.push({
+        file: link.file,
+        line: link.line,
+        slug: link.slug,
+        error: `Invalid geo: ${geoError}`,
+      });
+      continue;
+    }
+
+    // Validate optional A/B split
+    const splitError = validateSplit(link.split);
+    if (splitError) {
+      errors.push({
+        file: link.file,
+        line: link.line,
+        slug: link.slug,
+        error: `Invalid split: ${splitError}`,
+      });
+      continue;
+    }
+
+    // Validate optional password hash
+    const passwordError = validatePasswordHash(link.passwordHash);
+    if (passwordError) {
+      errors.push({
+        file: link.file,
+        line: link.line,
+        slug: link.slug,
+        error: `Invalid password_hash: ${passwordError}`,
+      });
+      continue;
+    }
+
+    // Validate optional redirect status
+    const redirectTypeError = validateRedirectType(link);
+    if (redirectTypeError) {
+      errors.push({
+        file: link.file,
+        line: link.line,
+        slug: link.slug,
+        error: `Invalid redirect_type: ${redirectTypeError}`,
+      });
+      continue;
+    }
+
+    // Validate optional link preview (Open Graph) fields
+    const ogError =
+      [
+        ["og_title", validateOgText(link.ogTitle, MAX_OG_TITLE_LENGTH)],
+        ["og_description", validateOgText(link.ogDescription, MAX_OG_DESCRIPTION_LENGTH)],
+        ["og_image", link.ogImage ? validateUrl(link.ogImage) : null],
+      ]
+        .map(([column, error]) => (error ? `Invalid ${column}: ${error}` : null))
+        .find((error) => error !== null);
+    if (ogError) {
+      errors.push({
+        file: link.file,
+        line: link.line,
+        slug: link.slug,
+        error: ogError,
+      });
+      continue;
+    }
+
     // Check for duplicates (case-insensitive for safety)
     const normalizedSlug = link.slug.toLowerCase();
     const existing = slugMap.get(normalizedSlug);
@@ -347,34 +1219,75 @@ async function main(): Promise<void> {
 
   // Report errors
   if (errors.length > 0) {
-    console.error("❌ Validation failed:\n");
-    for (const err of errors) {
-      const location = err.line > 0 ? `${err.file}:${err.line}` : err.file;
-      const slug = err.slug ? ` [${err.slug}]` : "";
-      console.error(`   ${location}${slug}`);
-      console.error(`   └─ ${err.error}\n`);
-    }
+    printValidationErrors("Validation failed", errors);
     process.exit(1);
   }
 
   const validLinks = Array.from(slugMap.values());
   console.log(`✅ All ${validLinks.length} link(s) valid\n`);
 
-  // Sync to KV and D1
-  if (dryRun) {
+  // Optional network check (PR validation); limited to the changed files when given
+  if (process.env.CHECK_REACHABILITY === "true") {
+    const onlyFiles = new Set((process.env.REACHABILITY_FILES || "").split(/\s+/).filter(Boolean));
+    const toCheck = onlyFiles.size > 0 ? validLinks.filter((link) => onlyFiles.has(link.file)) : validLinks;
+
+    const reachabilityErrors = await checkReachability(toCheck);
+    if (reachabilityErrors.length > 0) {
+      printValidationErrors("Reachability check failed", reachabilityErrors);
+      process.exit(1);
+    }
+    console.log(`✅ All destinations reachable\n`);
+  }
+
+  // Dry run without credentials (e.g. PR validation from forks): no remote state to diff against
+  if (dryRun && !hasCloudflareCredentials()) {
     console.log("🔍 Dry run — skipping KV/D1 sync\n");
     console.log("Links that would be synced:");
     for (const link of validLinks) {
-      console.log(`   ${link.slug} → ${link.url}`);
+      const expiry = link.expiresAt ? ` (expires ${link.expiresAt})` : "";
+      const prefix = parseFlag(link.prefix) ? "/*" : "";
+      console.log(`   ${link.slug}${prefix} → ${link.url}${expiry}`);
+    }
+    console.log("\n   (No Cloudflare credentials — removed links not computed)");
+    return;
+  }
+
+  // Plan against current KV/D1 state
+  console.log("☁️  Fetching current KV/D1 state...\n");
+  const remote = await fetchRemoteState(validLinks.map((link) => link.slug));
+  const plan = planSync(validLinks, remote);
+  printPlan(plan, remote);
+
+  const guardError = checkDeleteGuard(plan, remote);
+
+  if (dryRun) {
+    if (guardError) {
+      console.log(`⚠️  ${guardError}\n`);
     }
-  } else {
-    console.log("☁️  Syncing to Cloudflare KV...\n");
-    await syncToKV(validLinks);
-    console.log(`✅ Synced ${validLinks.length} link(s) to KV\n`);
+    console.log("🔍 Dry run — skipping KV/D1 sync");
+    return;
+  }
+
+  if (guardError && process.env.ALLOW_MASS_DELETE !== "true") {
+    console.error(`❌ ${guardError}`);
+    process.exit(1);
+  }
+
+  // Apply: upsert everything, then remove what's gone
+  console.log("☁️  Syncing to Cloudflare KV...\n");
+  await syncToKV(validLinks);
+  console.log(`✅ Synced ${validLinks.length} link(s) to KV\n`);
+  if (plan.remove.length > 0) {
+    await deleteFromKV(plan.remove);
+    console.log(`🗑️  Deleted ${plan.remove.length} link(s) from KV\n`);
+  }
 
-    console.log("☁️  Syncing to Cloudflare D1...\n");
-    await syncToD1(validLinks);
-    console.log(`✅ Synced ${validLinks.length} link(s) to D1\n`);
+  console.log("☁️  Syncing to Cloudflare D1...\n");
+  await syncToD1(validLinks);
+  console.log(`✅ Synced ${validLinks.length} link(s) to D1\n`);
+  if (plan.remove.length > 0) {
+    await tombstoneInD1(plan.remove);
+    console.log(`🪦 Tombstoned ${plan.remove.length} link(s) in D1\n`);
   }
 }
 